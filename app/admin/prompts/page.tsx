@@ -0,0 +1,12 @@
+import RequireAuth from "@/components/RequireAuth";
+import PromptTemplateEditor from "@/components/PromptTemplateEditor";
+
+export default function PromptsPage() {
+        return (
+                <RequireAuth>
+                        <main className="px-8 pt-28 md:pt-32 pb-10 max-w-[1100px] mx-auto">
+                                <PromptTemplateEditor />
+                        </main>
+                </RequireAuth>
+        );
+}
@@ -0,0 +1,17 @@
+"use server";
+
+import { listAgents, publicAgent } from "@/lib/magiRepo";
+
+export async function GET() {
+	try {
+		const agents = await listAgents();
+		return new Response(JSON.stringify({ ok: true, agents: agents.map(publicAgent) }), {
+			status: 200,
+			headers: {
+				"Cache-Control": "no-store",
+			},
+		});
+	} catch (e: any) {
+		return new Response(JSON.stringify({ ok: false, error: e?.message || "Unexpected error" }), { status: 500 });
+	}
+}
@@ -0,0 +1,70 @@
+"use server";
+
+import { NextRequest } from "next/server";
+import { assertUser, getUserBudget, listAgents, saveUserBudget } from "@/lib/magiRepo";
+import { budgetWarnings, estimateRunSpend, loadUserBudgetWindows, normalizeBudgetLimit } from "@/lib/magiBudget";
+import { clampDebateRounds } from "@/lib/magiDebate";
+import { normalizeRosterIds, sessionRoster } from "@/lib/magiRoster";
+import type { BudgetWindow } from "@/lib/magiBudget";
+
+// Pre-run check: the user's caps, what has been spent against them, and the
+// expected spend of a run with the given settings.
+export async function GET(req: NextRequest) {
+	try {
+		const { searchParams } = new URL(req.url);
+		const userId = (searchParams.get("userId") || "").trim();
+		if (!userId) {
+			return new Response(JSON.stringify({ ok: false, error: "Missing userId" }), { status: 400 });
+		}
+		const [budget, userWindows, agents] = await Promise.all([
+			getUserBudget(userId),
+			loadUserBudgetWindows(userId),
+			listAgents(),
+		]);
+		const sessionLimit = normalizeBudgetLimit({
+			maxTokens: searchParams.get("maxTokens"),
+			maxCostUsd: searchParams.get("maxCostUsd"),
+		});
+		const windows: BudgetWindow[] = sessionLimit
+			? [{ scope: "session", limit: sessionLimit, spent: { tokens: 0, costUsd: 0 } }, ...userWindows]
+			: userWindows;
+		const agentIds = normalizeRosterIds((searchParams.get("agentIds") || "").split(","));
+		const estimate = estimateRunSpend(sessionRoster(agents, { agentIds }), {
+			debateRounds: clampDebateRounds(searchParams.get("debateRounds")),
+			consensusMode: searchParams.get("consensusMode") === "synthesize" ? "synthesize" : "select",
+		});
+		return new Response(
+			JSON.stringify({ ok: true, budget, windows, estimate, warnings: budgetWarnings(windows, estimate) }),
+			{ status: 200, headers: { "Cache-Control": "no-store" } }
+		);
+	} catch (e: any) {
+		return new Response(JSON.stringify({ ok: false, error: e?.message || "Unexpected error" }), { status: 500 });
+	}
+}
+
+export async function PUT(req: NextRequest) {
+	try {
+		const body = (await req.json()) as {
+			userId?: string;
+			maxTokens?: number | null;
+			maxCostUsd?: number | null;
+			dailyMaxTokens?: number | null;
+			dailyMaxCostUsd?: number | null;
+		};
+		const userId = assertUser(body.userId);
+		const total = normalizeBudgetLimit({ maxTokens: body.maxTokens, maxCostUsd: body.maxCostUsd });
+		const daily = normalizeBudgetLimit({ maxTokens: body.dailyMaxTokens, maxCostUsd: body.dailyMaxCostUsd });
+		const budget = await saveUserBudget(userId, {
+			max_tokens: total?.maxTokens ?? null,
+			max_cost_usd: total?.maxCostUsd ?? null,
+			daily_max_tokens: daily?.maxTokens ?? null,
+			daily_max_cost_usd: daily?.maxCostUsd ?? null,
+		});
+		return new Response(JSON.stringify({ ok: true, budget }), {
+			status: 200,
+			headers: { "Cache-Control": "no-store" },
+		});
+	} catch (e: any) {
+		return new Response(JSON.stringify({ ok: false, error: e?.message || "Unexpected error" }), { status: 500 });
+	}
+}
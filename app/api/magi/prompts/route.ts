@@ -0,0 +1,65 @@
+"use server";
+
+import { NextRequest } from "next/server";
+import { assertUser, createPromptTemplateVersion, listAgents, listPromptTemplates, publicAgent } from "@/lib/magiRepo";
+import {
+	DEFAULT_PROMPT_TEMPLATES,
+	isPromptStage,
+	PROMPT_STAGES,
+	PROMPT_VARIABLES,
+	promptTemplateError,
+} from "@/lib/magiPrompts";
+
+// Everything the prompt editor needs: every stored version, the built-in
+// prompts they override, the variables a template may use and the agents.
+export async function GET(req: NextRequest) {
+	try {
+		const { searchParams } = new URL(req.url);
+		assertUser((searchParams.get("userId") || "").trim() || undefined);
+		const [templates, agents] = await Promise.all([listPromptTemplates(), listAgents()]);
+		return new Response(
+			JSON.stringify({
+				ok: true,
+				templates,
+				defaults: DEFAULT_PROMPT_TEMPLATES,
+				stages: PROMPT_STAGES,
+				variables: PROMPT_VARIABLES,
+				agents: agents.map(publicAgent),
+			}),
+			{ status: 200, headers: { "Cache-Control": "no-store" } }
+		);
+	} catch (e: any) {
+		return new Response(JSON.stringify({ ok: false, error: e?.message || "Unexpected error" }), { status: 500 });
+	}
+}
+
+// Saves a new version; a null agentId edits the default for all agents.
+export async function POST(req: NextRequest) {
+	try {
+		const body = (await req.json()) as { userId?: string; agentId?: string | null; stage?: string; body?: string };
+		const userId = assertUser(body.userId);
+		if (!isPromptStage(body.stage)) {
+			return new Response(JSON.stringify({ ok: false, error: "Invalid stage" }), { status: 400 });
+		}
+		const invalid = promptTemplateError(body.body);
+		if (invalid) {
+			return new Response(JSON.stringify({ ok: false, error: invalid }), { status: 400 });
+		}
+		const agentId = typeof body.agentId === "string" && body.agentId ? body.agentId : null;
+		if (agentId && !(await listAgents()).some((a) => a.id === agentId)) {
+			return new Response(JSON.stringify({ ok: false, error: "Agent not found" }), { status: 404 });
+		}
+		const template = await createPromptTemplateVersion({
+			agentId,
+			stage: body.stage,
+			body: String(body.body).trim(),
+			userId,
+		});
+		return new Response(JSON.stringify({ ok: true, template }), {
+			status: 200,
+			headers: { "Cache-Control": "no-store" },
+		});
+	} catch (e: any) {
+		return new Response(JSON.stringify({ ok: false, error: e?.message || "Unexpected error" }), { status: 500 });
+	}
+}
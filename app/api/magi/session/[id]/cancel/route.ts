@@ -0,0 +1,25 @@
+"use server";
+
+import { NextRequest } from "next/server";
+import { getSessionFull } from "@/lib/magiRepo";
+import { cancelSessionJob } from "@/lib/magiRunner";
+
+export async function POST(_req: NextRequest, { params }: { params: { id: string } }) {
+	try {
+		const { id: sessionId } = params;
+		const full = await getSessionFull(sessionId);
+		if (!full.session) {
+			return new Response(JSON.stringify({ ok: false, error: "Session not found" }), { status: 404 });
+		}
+		const result = await cancelSessionJob(sessionId, full.session.status);
+		if (!result.cancelled) {
+			return new Response(JSON.stringify({ ok: false, error: result.reason }), { status: 409 });
+		}
+		return new Response(JSON.stringify({ ok: true, job: result.job }), {
+			status: 200,
+			headers: { "Cache-Control": "no-store" },
+		});
+	} catch (e: any) {
+		return new Response(JSON.stringify({ ok: false, error: e?.message || "Unexpected error" }), { status: 500 });
+	}
+}
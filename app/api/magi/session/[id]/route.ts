@@ -1,13 +1,13 @@
 "use server";
 
 import { NextRequest } from "next/server";
-import { getSessionFull } from "@/lib/magiRepo";
+import { getSessionFull, publicAgent } from "@/lib/magiRepo";
 
 export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
 	try {
 		const { id } = params;
 		const full = await getSessionFull(id);
-		return new Response(JSON.stringify({ ok: true, ...full }), {
+		return new Response(JSON.stringify({ ok: true, ...full, agents: full.agents.map(publicAgent) }), {
 			status: 200,
 			headers: {
 				"Cache-Control": "no-store",
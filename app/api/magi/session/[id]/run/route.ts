@@ -0,0 +1,29 @@
+"use server";
+
+import { NextRequest } from "next/server";
+import { getSessionFull } from "@/lib/magiRepo";
+import { startSessionJob } from "@/lib/magiRunner";
+import type { ProviderKeyMap } from "@/lib/magiProviders";
+import type { RunRequestBody } from "@/lib/magiTypes";
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+	try {
+		const body = (await req.json().catch(() => ({}))) as RunRequestBody;
+		const { id: sessionId } = params;
+		const keys = (body?.keys || {}) as ProviderKeyMap;
+		const full = await getSessionFull(sessionId);
+		if (!full.session) {
+			return new Response(JSON.stringify({ ok: false, error: "Session not found" }), { status: 404 });
+		}
+		const result = await startSessionJob(sessionId, keys);
+		if (!result.started) {
+			return new Response(JSON.stringify({ ok: false, error: result.reason, job: result.job }), { status: 409 });
+		}
+		return new Response(JSON.stringify({ ok: true, job: result.job }), {
+			status: 202,
+			headers: { "Cache-Control": "no-store" },
+		});
+	} catch (e: any) {
+		return new Response(JSON.stringify({ ok: false, error: e?.message || "Unexpected error" }), { status: 500 });
+	}
+}
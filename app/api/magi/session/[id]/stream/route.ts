@@ -0,0 +1,62 @@
+"use server";
+
+import { NextRequest } from "next/server";
+import { subscribeSessionEvents } from "@/lib/magiEvents";
+import { getSessionFull } from "@/lib/magiRepo";
+import type { MagiStreamEvent } from "@/lib/magiTypes";
+
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+	try {
+		const { id: sessionId } = params;
+		const full = await getSessionFull(sessionId);
+		if (!full.session) {
+			return new Response(JSON.stringify({ ok: false, error: "Session not found" }), { status: 404 });
+		}
+		const encoder = new TextEncoder();
+		let cleanup: (() => void) | null = null;
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				const send = (chunk: string) => {
+					try {
+						controller.enqueue(encoder.encode(chunk));
+					} catch {
+						cleanup?.();
+					}
+				};
+				const unsubscribe = subscribeSessionEvents(sessionId, (event: MagiStreamEvent) => {
+					send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+				});
+				const keepalive = setInterval(() => send(": keepalive\n\n"), KEEPALIVE_INTERVAL_MS);
+				cleanup = () => {
+					clearInterval(keepalive);
+					unsubscribe();
+					cleanup = null;
+				};
+				req.signal.addEventListener("abort", () => {
+					cleanup?.();
+					try {
+						controller.close();
+					} catch {
+						// already closed
+					}
+				});
+				send(`event: ready\ndata: ${JSON.stringify({ sessionId, status: full.session!.status })}\n\n`);
+			},
+			cancel() {
+				cleanup?.();
+			},
+		});
+		return new Response(stream, {
+			status: 200,
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-store",
+				Connection: "keep-alive",
+			},
+		});
+	} catch (e: any) {
+		return new Response(JSON.stringify({ ok: false, error: e?.message || "Unexpected error" }), { status: 500 });
+	}
+}
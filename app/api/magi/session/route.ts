@@ -1,9 +1,18 @@
 "use server";
 
 import { NextRequest } from "next/server";
-import { addMessage, assertUser, createSession, setSessionStatus } from "@/lib/magiRepo";
+import { addMessage, assertUser, createSession, listAgents, setSessionStatus } from "@/lib/magiRepo";
 import { getArtifactById } from "@/lib/codeArtifacts";
 import { normalizeLiveUrl } from "@/lib/liveUrl";
+import { normalizeBudgetLimit } from "@/lib/magiBudget";
+import { clampProposalConcurrency } from "@/lib/magiConcurrency";
+import { clampDebateRounds } from "@/lib/magiDebate";
+import { normalizeRosterIds, rosterError } from "@/lib/magiRoster";
+import { normalizeRubric } from "@/lib/magiRubric";
+import { normalizeBlindSeed } from "@/lib/magiBlind";
+import { normalizeScoreCalibration } from "@/lib/magiCalibration";
+import { normalizeVerdictSettings } from "@/lib/magiVerdict";
+import { normalizeAgentWeights, normalizeVotingScheme } from "@/lib/magiVoting";
 import type { CreateSessionRequestBody } from "@/lib/magiTypes";
 
 export async function POST(req: NextRequest) {
@@ -13,9 +22,37 @@ export async function POST(req: NextRequest) {
 		const question = (body.question || "").trim();
                 const artifactId = typeof body.artifactId === "string" ? body.artifactId.trim() : "";
                 const normalizedLiveUrl = normalizeLiveUrl(body.liveUrl);
+                const agentIds = normalizeRosterIds(body.settings?.agentIds);
+                const settings = {
+                        debateRounds: clampDebateRounds(body.settings?.debateRounds),
+                        consensusMode: body.settings?.consensusMode === "synthesize" ? ("synthesize" as const) : ("select" as const),
+                        synthesizerAgentId:
+                                typeof body.settings?.synthesizerAgentId === "string" ? body.settings.synthesizerAgentId : null,
+                        proposalConcurrency: clampProposalConcurrency(body.settings?.proposalConcurrency),
+                        agentIds,
+                        quorum:
+                                typeof body.settings?.quorum === "number" && body.settings.quorum >= 1
+                                        ? Math.round(body.settings.quorum)
+                                        : null,
+                        budget: normalizeBudgetLimit(body.settings?.budget),
+                        votingScheme: normalizeVotingScheme(body.settings?.votingScheme),
+                        agentWeights: normalizeAgentWeights(body.settings?.agentWeights),
+                        scoreCalibration: normalizeScoreCalibration(body.settings?.scoreCalibration),
+                        verdict: normalizeVerdictSettings(body.settings?.verdict),
+                        rubric: Array.isArray(body.settings?.rubric) ? normalizeRubric(body.settings.rubric) : null,
+                        blindVoting: body.settings?.blindVoting === true,
+                        blindSeed: normalizeBlindSeed(body.settings?.blindSeed),
+                };
                 if (!question) {
                         return new Response(JSON.stringify({ ok: false, error: "Question is required" }), { status: 400 });
                 }
+                const invalidRoster = rosterError(await listAgents(), agentIds);
+                if (invalidRoster) {
+                        return new Response(JSON.stringify({ ok: false, error: invalidRoster }), { status: 400 });
+                }
+                if (agentIds && settings.synthesizerAgentId && !agentIds.includes(settings.synthesizerAgentId)) {
+                        settings.synthesizerAgentId = null;
+                }
 		let resolvedArtifactId: string | null = null;
 		if (artifactId) {
 			const artifact = await getArtifactById(artifactId);
@@ -27,7 +64,7 @@ export async function POST(req: NextRequest) {
 			}
 			resolvedArtifactId = artifact.id;
 		}
-                const session = await createSession(userId, question, resolvedArtifactId, normalizedLiveUrl);
+                const session = await createSession(userId, question, resolvedArtifactId, normalizedLiveUrl, settings);
 		await addMessage({
 			sessionId: session.id,
 			role: "user",
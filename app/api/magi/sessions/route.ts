@@ -2,6 +2,7 @@
 
 import { NextRequest } from "next/server";
 import { getSupabaseServer } from "@/lib/supabaseClient";
+import { sumUsageRows } from "@/lib/magiUsage";
 
 export async function GET(req: NextRequest) {
 	try {
@@ -22,6 +23,7 @@ export async function GET(req: NextRequest) {
 
 		const sessions = data ?? [];
 		let consensusBySession: Record<string, { final_message_id: number | null; summary: string | null }> = {};
+		const usageBySession: Record<string, { tokens: number; costUsd: number }> = {};
 		if (sessions.length > 0) {
 			const sessionIds = sessions.map((s) => s.id);
 			const { data: consensusRows, error: consensusError } = await supabase
@@ -40,6 +42,22 @@ export async function GET(req: NextRequest) {
 				};
 				return acc;
 			}, {} as Record<string, { final_message_id: number | null; summary: string | null }>);
+
+			const [messageUsage, voteUsage] = await Promise.all([
+				supabase.from("magi_messages").select("session_id, tokens, cost_usd").in("session_id", sessionIds),
+				supabase.from("magi_votes").select("session_id, tokens, cost_usd").in("session_id", sessionIds),
+			]);
+			const usageError = messageUsage.error || voteUsage.error;
+			if (usageError) {
+				return new Response(JSON.stringify({ ok: false, error: usageError.message }), { status: 500 });
+			}
+			const rowsBySession: Record<string, { tokens: number | null; cost_usd: number | null }[]> = {};
+			for (const row of [...(messageUsage.data || []), ...(voteUsage.data || [])]) {
+				(rowsBySession[row.session_id] ??= []).push(row);
+			}
+			for (const [sessionId, rows] of Object.entries(rowsBySession)) {
+				usageBySession[sessionId] = sumUsageRows(rows);
+			}
 		}
 
 		const enriched = sessions.map((s) => {
@@ -48,6 +66,8 @@ export async function GET(req: NextRequest) {
 				...s,
 				finalMessageId: consensus.final_message_id,
 				consensusSummary: consensus.summary,
+				totalTokens: usageBySession[s.id]?.tokens ?? 0,
+				totalCostUsd: usageBySession[s.id]?.costUsd ?? 0,
 			};
 		});
 
@@ -84,6 +104,8 @@ export async function DELETE(req: NextRequest) {
 		}
 
 		const tablesToClear = [
+			{ table: "magi_jobs", column: "session_id" },
+			{ table: "magi_steps", column: "session_id" },
 			{ table: "magi_votes", column: "session_id" },
 			{ table: "magi_messages", column: "session_id" },
 			{ table: "magi_consensus", column: "session_id" },
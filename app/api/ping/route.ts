@@ -1,72 +1,42 @@
 import { NextResponse } from "next/server";
+import { agentEndpoint } from "@/lib/magiProviders";
+import { listAgents } from "@/lib/magiRepo";
+import { getProviderAdapter } from "@/lib/providers";
 
-type Provider = "openai" | "anthropic" | "grok";
-
-async function pingOpenAI(apiKey: string): Promise<boolean> {
-	try {
-		const res = await fetch("https://api.openai.com/v1/models", {
-			method: "GET",
-			headers: {
-				"Authorization": `Bearer ${apiKey}`,
-			},
-			// Tiny timeout guard
-			cache: "no-store",
-		});
-		return res.ok;
-	} catch {
-		return false;
-	}
-}
-
-async function pingAnthropic(apiKey: string): Promise<boolean> {
-	try {
-		const res = await fetch("https://api.anthropic.com/v1/models", {
-			method: "GET",
-			headers: {
-				"x-api-key": apiKey,
-				"anthropic-version": "2023-06-01",
-			},
-			cache: "no-store",
-		});
-		return res.ok;
-	} catch {
-		return false;
-	}
-}
-
-async function pingGrok(apiKey: string): Promise<boolean> {
-	try {
-		// xAI API (Grok) models endpoint
-		const res = await fetch("https://api.x.ai/v1/models", {
-			method: "GET",
-			headers: {
-				"Authorization": `Bearer ${apiKey}`,
-			},
-			cache: "no-store",
-		});
-		return res.ok;
-	} catch {
-		return false;
-	}
-}
+const PING_TIMEOUT_MS = 10_000;
 
 export async function POST(req: Request) {
 	try {
-		const { provider, apiKey } = (await req.json()) as { provider: Provider; apiKey: string };
-		if (!provider || !apiKey) {
+		const { provider, apiKey = "", agentId } = (await req.json()) as { provider: string; apiKey?: string; agentId?: string };
+		// Custom endpoints may be keyless (a local llama.cpp server); the
+		// provider's own API always needs a key.
+		if (!provider || (!apiKey && !agentId)) {
 			return NextResponse.json({ ok: false, error: "Missing provider or apiKey" }, { status: 400 });
 		}
 
-		let ok = false;
-		if (provider === "openai") ok = await pingOpenAI(apiKey);
-		else if (provider === "anthropic") ok = await pingAnthropic(apiKey);
-		else if (provider === "grok") ok = await pingGrok(apiKey);
-		else return NextResponse.json({ ok: false, error: "Unknown provider" }, { status: 400 });
+		const adapter = getProviderAdapter(provider);
+		if (!adapter) return NextResponse.json({ ok: false, error: "Unknown provider" }, { status: 400 });
+
+		// Endpoint keys are checked against the agent's configured base_url,
+		// never a URL from the request body.
+		if (agentId) {
+			const agent = (await listAgents()).find((a) => a.id === agentId);
+			if (!agent || !agent.base_url || agent.provider !== adapter.id || !adapter.customEndpoints) {
+				return NextResponse.json({ ok: false, error: "Agent has no custom endpoint" }, { status: 400 });
+			}
+			let endpoint;
+			try {
+				endpoint = agentEndpoint(agent);
+			} catch (e: any) {
+				return NextResponse.json({ ok: false, error: e?.message || "Invalid base_url" }, { status: 400 });
+			}
+			const ok = await adapter.ping(apiKey, AbortSignal.timeout(PING_TIMEOUT_MS), endpoint ?? undefined);
+			return NextResponse.json({ ok });
+		}
 
+		const ok = await adapter.ping(apiKey, AbortSignal.timeout(PING_TIMEOUT_MS));
 		return NextResponse.json({ ok });
 	} catch (e) {
 		return NextResponse.json({ ok: false, error: "Unexpected error" }, { status: 500 });
 	}
 }
-
-
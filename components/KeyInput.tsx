@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import clsx from "classnames";
 import { safeLoad, safeSave, safeRemove } from "@/lib/localStore";
+import type { MagiProviderId } from "@/lib/magiTypes";
 
 export default function KeyInput({
 	storageKey,
@@ -10,12 +11,15 @@ export default function KeyInput({
 	verifiedKey,
 	label,
 	accent,
+	agentId,
 }: {
 	storageKey: string;
-	provider: "openai" | "anthropic" | "grok";
+	provider: MagiProviderId;
 	verifiedKey: string;
 	label: string;
 	accent: "magiBlue" | "magiOrange" | "magiGreen";
+	/** Verify against this agent's custom endpoint instead of the provider's API. */
+	agentId?: string;
 }) {
 	const [value, setValue] = useState("");
 	const [status, setStatus] = useState<"idle" | "saving" | "transmitting" | "waiting" | "success" | "error">("idle");
@@ -33,7 +37,8 @@ export default function KeyInput({
 
 	async function handleSave() {
 		const trimmed = value.trim();
-		if (!trimmed) {
+		// Only an agent's custom endpoint can be verified without a key.
+		if (!trimmed && !agentId) {
 			setStatus("idle");
 			setErrorText("No key provided");
 			return;
@@ -49,7 +54,7 @@ export default function KeyInput({
 			const res = await fetch("/api/ping", {
 				method: "POST",
 				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({ provider, apiKey: trimmed }),
+				body: JSON.stringify({ provider, apiKey: trimmed, agentId }),
 			});
 			setStatus("waiting");
 			const data = await res.json().catch(() => ({}));
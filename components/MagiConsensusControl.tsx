@@ -2,17 +2,41 @@
 
 import { type ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { supabaseBrowser } from "@/lib/supabaseClient";
-import { safeLoad } from "@/lib/localStore";
+import { safeLoad, safeLoadMatching, safeSave } from "@/lib/localStore";
+import { MIN_ROSTER_SIZE, parseStoredRoster, ROSTER_STORAGE_KEY } from "@/lib/magiRoster";
 import { normalizeLiveUrl } from "@/lib/liveUrl";
+import { isJobResumable, isJobStalled } from "@/lib/magiJobs";
+import {
+        buildPositionHistory,
+        DEFAULT_DEBATE_ROUNDS,
+        latestRoundProposals,
+        MAX_DEBATE_ROUNDS,
+        messageRound,
+        revisionOf,
+} from "@/lib/magiDebate";
+import { DEFAULT_PROPOSAL_CONCURRENCY, MAX_PROPOSAL_CONCURRENCY } from "@/lib/magiConcurrency";
+import { formatCost, sumUsageRows } from "@/lib/magiUsage";
+import { DEFAULT_RUBRIC, formatRubricText, parseRubricText } from "@/lib/magiRubric";
+import { DEFAULT_VOTING_SCHEME, MAX_AGENT_WEIGHT } from "@/lib/magiVoting";
 import type {
+        MagiAbsentAgent,
         MagiAgent,
         MagiConsensus,
+        MagiConsensusMode,
+        MagiDiagnosticsPositionSummary,
+        MagiJob,
         MagiMessage,
+        MagiScoreCalibration,
         MagiSession,
         MagiStepDiagnostics,
+        MagiStreamEvent,
+        MagiVerdictRule,
         MagiVote,
+        MagiVotingScheme,
+        MagiWorkflowStep,
 } from "@/lib/magiTypes";
 import clsx from "classnames";
+import { agentVerifiedKey } from "@/components/MagiPanel";
 
 function normalizeVoteScores(raw: MagiVote[] | null | undefined): MagiVote[] {
         if (!Array.isArray(raw)) return [];
@@ -46,6 +70,7 @@ function votesEqual(a: MagiVote[], b: MagiVote[]): boolean {
                         existing.target_message_id !== vote.target_message_id ||
                         existing.score !== vote.score ||
                         existing.rationale !== vote.rationale ||
+                        JSON.stringify(existing.criteria ?? null) !== JSON.stringify(vote.criteria ?? null) ||
                         existing.created_at !== vote.created_at
                 ) {
                         return false;
@@ -67,7 +92,71 @@ function readMessageMetaNumber(meta: unknown, key: string): number | null {
         return null;
 }
 
-type Step = "idle" | "creating" | "proposing" | "voting" | "finalizing" | "done" | "error";
+function readMessageMetaString(meta: unknown, key: string): string | null {
+        if (!meta || typeof meta !== "object") return null;
+        const raw = (meta as Record<string, unknown>)[key];
+        return typeof raw === "string" && raw ? raw : null;
+}
+
+type Step = "idle" | "creating" | "proposing" | "critiquing" | "voting" | "revising" | "finalizing" | "done" | "error";
+
+const STEP_BY_WORKFLOW: Record<MagiWorkflowStep, Step> = {
+        propose: "proposing",
+        critique: "critiquing",
+        vote: "voting",
+        revise: "revising",
+        consensus: "finalizing",
+};
+
+// Revisions re-open the proposals stage card rather than adding one of their own.
+const STAGE_BY_WORKFLOW: Record<MagiWorkflowStep, Step> = { ...STEP_BY_WORKFLOW, revise: "proposing" };
+
+const RUN_POLL_INTERVAL_MS = 1500;
+const RUN_OBSERVE_TIMEOUT_MS = 20 * 60_000;
+// Only the tail of each streaming response is kept on screen.
+const LIVE_OUTPUT_TAIL_CHARS = 1200;
+
+type LiveOutput = {
+        streamId: string;
+        step: MagiWorkflowStep;
+        round: number;
+        agentName: string;
+        targetMessageId: number | null;
+        text: string;
+        status: "started" | "complete" | "failed";
+        tools: string[];
+};
+
+function applyStreamEvent(outputs: LiveOutput[], event: MagiStreamEvent): LiveOutput[] {
+        if (event.type === "stage") return outputs;
+        const index = outputs.findIndex((o) => o.streamId === event.streamId);
+        const current: LiveOutput =
+                index >= 0
+                        ? outputs[index]
+                        : {
+                                  streamId: event.streamId,
+                                  step: event.step,
+                                  round: event.round,
+                                  agentName: event.agentName,
+                                  targetMessageId: event.targetMessageId ?? null,
+                                  text: "",
+                                  status: "started",
+                                  tools: [],
+                          };
+        let updated = current;
+        if (event.type === "agent") {
+                updated = { ...current, status: event.status };
+        } else if (event.type === "delta") {
+                updated = { ...current, text: (current.text + event.text).slice(-LIVE_OUTPUT_TAIL_CHARS) };
+        } else if (event.type === "tool") {
+                const label = `${event.method} ${event.url} → ${event.ok ? event.status ?? "ok" : "failed"}`;
+                updated = { ...current, tools: [...current.tools, label] };
+        }
+        if (index < 0) return [...outputs, updated];
+        const next = outputs.slice();
+        next[index] = updated;
+        return next;
+}
 
 type ArtifactState = {
         id: string;
@@ -98,8 +187,9 @@ export default function MagiConsensusControl() {
         const [error, setError] = useState<string | null>(null);
         const [session, setSession] = useState<MagiSession | null>(null);
         const [messages, setMessages] = useState<MagiMessage[]>([]);
-        const [, setConsensus] = useState<MagiConsensus | null>(null);
+        const [consensus, setConsensus] = useState<MagiConsensus | null>(null);
         const [agents, setAgents] = useState<MagiAgent[]>([]);
+        const [job, setJob] = useState<MagiJob | null>(null);
         const [debug, setDebug] = useState<string | null>(null);
         const [artifact, setArtifact] = useState<ArtifactState | null>(null);
         const [artifactError, setArtifactError] = useState<string | null>(null);
@@ -107,10 +197,30 @@ export default function MagiConsensusControl() {
         const [uploadingArtifact, setUploadingArtifact] = useState(false);
         const [liveUrl, setLiveUrl] = useState("");
         const [liveUrlError, setLiveUrlError] = useState<string | null>(null);
+        const [debateRounds, setDebateRounds] = useState<number>(DEFAULT_DEBATE_ROUNDS);
+        const [debateRound, setDebateRound] = useState<number>(1);
+        const [consensusMode, setConsensusMode] = useState<MagiConsensusMode>("select");
+        const [votingScheme, setVotingScheme] = useState<MagiVotingScheme>(DEFAULT_VOTING_SCHEME);
+        const [agentWeights, setAgentWeights] = useState<Record<string, number>>({});
+        const [rubricInput, setRubricInput] = useState(() => formatRubricText(DEFAULT_RUBRIC));
+        const [blindVoting, setBlindVoting] = useState(false);
+        const [scoreCalibration, setScoreCalibration] = useState<MagiScoreCalibration>("none");
+        const [verdictProposition, setVerdictProposition] = useState("");
+        const [verdictRule, setVerdictRule] = useState<MagiVerdictRule>("majority");
+        const [proposalConcurrency, setProposalConcurrency] = useState<number>(DEFAULT_PROPOSAL_CONCURRENCY);
+        const [quorum, setQuorum] = useState<number | null>(null);
+        const [availableAgents, setAvailableAgents] = useState<MagiAgent[]>([]);
+        const [rosterIds, setRosterIds] = useState<string[]>([]);
+        const [liveOutputs, setLiveOutputs] = useState<LiveOutput[]>([]);
+        const [cancelling, setCancelling] = useState(false);
+        const [budgetAmount, setBudgetAmount] = useState("");
+        const [budgetUnit, setBudgetUnit] = useState<"usd" | "tokens">("usd");
+        const [budgetWarnings, setBudgetWarnings] = useState<string[]>([]);
+        const eventSourceRef = useRef<EventSource | null>(null);
         const fileInputRef = useRef<HTMLInputElement | null>(null);
         // Local display buffers to avoid UI depending on DB read latency
         const [displayProposals, setDisplayProposals] = useState<MagiMessage[]>([]);
-        // Critiques removed from workflow
+        const [displayCritiques, setDisplayCritiques] = useState<MagiMessage[]>([]);
         const [displayConsensus, setDisplayConsensus] = useState<MagiMessage | null>(null);
         const [displayVotes, setDisplayVotes] = useState<MagiVote[]>([]);
 		// Tucked-away history drawer state
@@ -131,10 +241,12 @@ export default function MagiConsensusControl() {
                 finalMessage: MagiMessage | null;
                 derived: boolean;
                 liveUrl: string | null;
+                positions: { agentId: string; name: string; history: MagiDiagnosticsPositionSummary[] }[];
         } | null>(null);
 
         // Modal toggles for stage details
         const [showProposalsModal, setShowProposalsModal] = useState(false);
+        const [showCritiquesModal, setShowCritiquesModal] = useState(false);
         const [showVotesModal, setShowVotesModal] = useState(false);
 
         const getUserId = useCallback(async () => {
@@ -149,6 +261,39 @@ export default function MagiConsensusControl() {
                 return userId;
         }, []);
 
+        const sessionBudget = useMemo(() => {
+                const amount = Number(budgetAmount);
+                if (!Number.isFinite(amount) || amount <= 0) return null;
+                return budgetUnit === "usd" ? { maxCostUsd: amount } : { maxTokens: Math.round(amount) };
+        }, [budgetAmount, budgetUnit]);
+
+        // Pre-run estimate against the session budget and the account caps.
+        useEffect(() => {
+                let cancelled = false;
+                const timer = setTimeout(async () => {
+                        try {
+                                const userId = await getUserId();
+                                const params = new URLSearchParams({
+                                        userId,
+                                        debateRounds: String(debateRounds),
+                                        consensusMode,
+                                });
+                                if (rosterIds.length > 0) params.set("agentIds", rosterIds.join(","));
+                                if (sessionBudget?.maxCostUsd) params.set("maxCostUsd", String(sessionBudget.maxCostUsd));
+                                if (sessionBudget?.maxTokens) params.set("maxTokens", String(sessionBudget.maxTokens));
+                                const res = await fetch(`/api/magi/budget?${params.toString()}`, { cache: "no-store" });
+                                const data = await res.json();
+                                if (!cancelled) setBudgetWarnings(data?.ok && Array.isArray(data.warnings) ? data.warnings : []);
+                        } catch {
+                                if (!cancelled) setBudgetWarnings([]);
+                        }
+                }, 400);
+                return () => {
+                        cancelled = true;
+                        clearTimeout(timer);
+                };
+        }, [consensusMode, debateRounds, getUserId, rosterIds, sessionBudget]);
+
         const updateDisplayVotes = useCallback((incoming: MagiVote[] | null | undefined) => {
                 const normalized = normalizeVoteScores(incoming);
                 setDisplayVotes((prev) => {
@@ -327,19 +472,55 @@ export default function MagiConsensusControl() {
         }, []);
 
 
+        // Every configured agent, for the roster picker. The last pick is
+        // restored from localStorage; by default all agents take part.
+        useEffect(() => {
+                let cancelled = false;
+                fetch("/api/magi/agents", { cache: "no-store" })
+                        .then((res) => res.json())
+                        .then((data) => {
+                                if (cancelled || !data?.ok || !Array.isArray(data.agents)) return;
+                                const list = data.agents as MagiAgent[];
+                                const stored = parseStoredRoster(safeLoad(ROSTER_STORAGE_KEY));
+                                const restored = stored?.filter((id) => list.some((a) => a.id === id)) ?? [];
+                                setAvailableAgents(list);
+                                setRosterIds(restored.length > 0 ? restored : list.map((a) => a.id));
+                        })
+                        .catch(() => {});
+                return () => {
+                        cancelled = true;
+                };
+        }, []);
+
+        const toggleRosterAgent = useCallback((agentId: string) => {
+                setRosterIds((prev) => {
+                        const next = prev.includes(agentId) ? prev.filter((id) => id !== agentId) : [...prev, agentId];
+                        safeSave(ROSTER_STORAGE_KEY, JSON.stringify(next));
+                        return next;
+                });
+        }, []);
+
+        const rosterAgents = useMemo(
+                () => availableAgents.filter((a) => rosterIds.includes(a.id)),
+                [availableAgents, rosterIds]
+        );
+
+        useEffect(() => {
+                if (quorum !== null && quorum >= rosterAgents.length) setQuorum(null);
+        }, [quorum, rosterAgents.length]);
+
 	const [verifiedAll, setVerifiedAll] = useState<boolean>(false);
 	useEffect(() => {
 		// Re-check on mount and when storage changes
 		function compute() {
-			const a = safeLoad("magi_provider_openai_verified");
-			const b = safeLoad("magi_provider_anthropic_verified");
-			const c = safeLoad("magi_provider_grok_verified");
-			setVerifiedAll(Boolean(a && b && c));
+			setVerifiedAll(
+				rosterAgents.length >= MIN_ROSTER_SIZE && rosterAgents.every((a) => Boolean(safeLoad(agentVerifiedKey(a))))
+			);
 		}
 		compute();
 		const i = setInterval(compute, 1000);
 		return () => clearInterval(i);
-	}, []);
+	}, [rosterAgents]);
 
 	// Load user's sessions for the History drawer
 	const loadSessions = useCallback(async () => {
@@ -413,6 +594,9 @@ export default function MagiConsensusControl() {
                         anthropic: safeLoad("magi_provider_anthropic_api_key") || undefined,
                         grok: safeLoad("magi_provider_grok_api_key") || undefined,
                         xai: safeLoad("magi_provider_grok_api_key") || safeLoad("magi_provider_xai_api_key") || undefined,
+                        gemini: safeLoad("magi_provider_gemini_api_key") || undefined,
+                        mistral: safeLoad("magi_provider_mistral_api_key") || undefined,
+                        endpoints: safeLoadMatching(/^magi_endpoint_(.+)_api_key$/),
                 };
         }, []);
 
@@ -420,7 +604,15 @@ export default function MagiConsensusControl() {
                 const agentSummary =
                         diag.agents
                                 .map((a) => {
-                                        const proposals = a.proposals.map((p) => `#${p.id}${p.fallback ? "*" : ""}`).join(", ") || "—";
+                                        const proposals =
+                                                a.proposals
+                                                        .map((p) => {
+                                                                const timing =
+                                                                        typeof p.durationMs === "number" ? `(${(p.durationMs / 1000).toFixed(1)}s)` : "";
+                                                                const route = p.failedOver && p.providerUsed ? `→${p.providerUsed}` : "";
+                                                                return `#${p.id}${p.fallback ? "*" : ""}${timing}${route}`;
+                                                        })
+                                                        .join(", ") || "—";
                                         const critiques = a.critiquesAuthored
                                                 .map((c) => `#${c.id}${c.fallback ? "*" : ""}`)
                                                 .join(", ") || "—";
@@ -434,14 +626,39 @@ export default function MagiConsensusControl() {
                                                                 return `#${v.targetMessageId}:${score}${v.fallback ? "*" : ""}`;
                                                         })
                                                         .join(", ") || "—";
-                                        return `${a.name} P:${proposals} C:${critiques} V:${votes}`;
+                                        const positions = (a.positions ?? [])
+                                                .map((p) => `R${p.round}:${p.averageScore ?? "?"}`)
+                                                .join("→");
+                                        return `${a.name} P:${proposals} C:${critiques} V:${votes}${positions ? ` D:${positions}` : ""}`;
                                 })
                                 .join(" | ") || "—";
                 const extras: string[] = [];
+                if (typeof diag.round === "number") {
+                        const max = typeof diag.maxRounds === "number" ? `/${diag.maxRounds}` : "";
+                        extras.push(`round=${diag.round}${max}${diag.converged ? " converged" : ""}`);
+                }
+                if (typeof diag.concurrency === "number") {
+                        extras.push(`parallel=${diag.concurrency}`);
+                }
+                if (typeof diag.quorum === "number") {
+                        extras.push(`quorum=${diag.quorum}`);
+                }
+                if (diag.absentAgents && diag.absentAgents.length > 0) {
+                        extras.push(`absent=${diag.absentAgents.map((a) => a.name).join(",")}`);
+                }
                 if (typeof diag.winningProposalId === "number") {
                         const score = typeof diag.winningScore === "number" ? `(${diag.winningScore})` : "";
                         extras.push(`winner=#${diag.winningProposalId}${score}`);
                 }
+                if (diag.blind) {
+                        extras.push(`blindSeed=${diag.blind.seed}`);
+                }
+                if (diag.calibration) {
+                        extras.push(`calibration=${diag.calibration.mode}`);
+                }
+                if (diag.voting) {
+                        extras.push(`voting=${diag.voting.scheme}${diag.voting.tieBreak ? ` tiebreak=${diag.voting.tieBreak.rule}` : ""}`);
+                }
                 if (typeof diag.consensusMessageId === "number") {
                         extras.push(`consensus=#${diag.consensusMessageId}`);
                 }
@@ -457,12 +674,16 @@ export default function MagiConsensusControl() {
                 setMessages(data.messages || []);
                 setConsensus(data.consensus || null);
                 setAgents(data.agents || []);
+                setJob(data.job || null);
                 updateDisplayVotes(data.votes as MagiVote[] | undefined);
 		// Update display buffers from fetched data if not already present
 		const fetchedProposals: MagiMessage[] = (data.messages || []).filter((m: MagiMessage) => m.role === "agent_proposal");
+		const fetchedCritiques: MagiMessage[] = (data.messages || []).filter((m: MagiMessage) => m.role === "agent_critique");
 		const fetchedFinal: MagiMessage | undefined = (data.messages || []).find((m: MagiMessage) => m.role === "consensus");
 		if (fetchedProposals.length > 0) setDisplayProposals(fetchedProposals);
+		if (fetchedCritiques.length > 0) setDisplayCritiques(fetchedCritiques);
                 if (fetchedFinal) setDisplayConsensus(fetchedFinal);
+                return data;
 	}, []);
 
 	async function fetchFullRaw(sessionId: string) {
@@ -498,13 +719,22 @@ export default function MagiConsensusControl() {
                 }
 
                 try {
-                        async function resolveFinal(sessionId: string): Promise<{ question: string; finalMessage: MagiMessage | null; derived: boolean; liveUrl: string | null }> {
+                        type HistoryPositions = { agentId: string; name: string; history: MagiDiagnosticsPositionSummary[] }[];
+                        async function resolveFinal(sessionId: string): Promise<{ question: string; finalMessage: MagiMessage | null; derived: boolean; liveUrl: string | null; positions: HistoryPositions }> {
                                 const data = await fetchFullRaw(sessionId);
                                 if (!data?.ok) {
-                                        return { question: s.question, finalMessage: null, derived: false, liveUrl: s.live_url ?? null };
+                                        return { question: s.question, finalMessage: null, derived: false, liveUrl: s.live_url ?? null, positions: [] };
                                 }
                                 const msgs: MagiMessage[] = Array.isArray(data.messages) ? (data.messages as MagiMessage[]) : [];
                                 const votes: MagiVote[] = Array.isArray(data.votes) ? (data.votes as MagiVote[]) : [];
+                                const sessionAgents: MagiAgent[] = Array.isArray(data.agents) ? (data.agents as MagiAgent[]) : [];
+                                const positions: HistoryPositions = sessionAgents
+                                        .map((agent) => ({
+                                                agentId: agent.id,
+                                                name: agent.name,
+                                                history: buildPositionHistory(agent.id, msgs, normalizeVoteScores(votes)),
+                                        }))
+                                        .filter((entry) => entry.history.length > 0);
                                 const question: string = data.session?.question ?? s.question;
                                 const liveUrl: string | null = typeof data.session?.live_url === "string"
                                         ? (data.session.live_url as string)
@@ -537,10 +767,10 @@ export default function MagiConsensusControl() {
                                 }
                                 if (!finalMsg && consensusRow && typeof (consensusRow as any).summary === "string" && (consensusRow as any).summary.trim()) {
                                         finalMsg = buildMessageFromSummary(((consensusRow as any).summary as string).trim(), finalId);
-                                        return { question, finalMessage: finalMsg, derived: false, liveUrl };
+                                        return { question, finalMessage: finalMsg, derived: false, liveUrl, positions };
                                 }
                                 if (!finalMsg) {
-                                        const proposals = msgs.filter((m) => m.role === "agent_proposal");
+                                        const proposals = latestRoundProposals(msgs);
                                         if (proposals.length > 0) {
                                                 const totals = new Map<number, number>();
                                                 for (const v of votes) {
@@ -557,15 +787,15 @@ export default function MagiConsensusControl() {
                                                 }
                                                 if (best) {
                                                         finalMsg = best;
-                                                        return { question, finalMessage: finalMsg, derived: true, liveUrl };
+                                                        return { question, finalMessage: finalMsg, derived: true, liveUrl, positions };
                                                 }
                                         }
                                 }
-                                return { question, finalMessage: finalMsg, derived: false, liveUrl };
+                                return { question, finalMessage: finalMsg, derived: false, liveUrl, positions };
                         }
 
                         // First attempt
-                        let { question, finalMessage, derived, liveUrl } = await resolveFinal(s.id);
+                        let { question, finalMessage, derived, liveUrl, positions } = await resolveFinal(s.id);
 
                         // Retry loop to handle any replication lag or delayed writes
                         if (!finalMessage) {
@@ -576,6 +806,7 @@ export default function MagiConsensusControl() {
                                         finalMessage = next.finalMessage;
                                         derived = next.derived;
                                         liveUrl = next.liveUrl;
+                                        positions = next.positions;
                                         if (finalMessage) break;
                                 }
                         }
@@ -592,6 +823,7 @@ export default function MagiConsensusControl() {
                                 finalMessage,
                                 derived,
                                 liveUrl: liveUrl ?? s.live_url ?? null,
+                                positions,
                         });
                 } catch (err) {
                         console.error("Failed to load history detail", err);
@@ -603,77 +835,143 @@ export default function MagiConsensusControl() {
                                 finalMessage: fallbackMessage,
                                 derived: false,
                                 liveUrl: s.live_url ?? null,
+                                positions: [],
                         });
                 } finally {
                         setHistoryDetailLoading(false);
                 }
         }, []);
 
-	async function waitFor(sessionId: string, predicate: (payload: any) => boolean, label: string, timeoutMs = 15000, intervalMs = 300) {
-		const start = Date.now();
-                while (Date.now() - start < timeoutMs) {
-                        const data = await fetchFullRaw(sessionId);
-                        if (data?.ok) {
-                                // keep UI in sync while waiting
-                                setSession(data.session);
-                                setMessages(data.messages || []);
-                                setConsensus(data.consensus || null);
-                                setAgents(data.agents || []);
-                                if (Array.isArray(data.votes)) {
-                                        updateDisplayVotes(data.votes as MagiVote[]);
-                                }
-                                if (predicate(data)) {
-                                        return true;
+        const observeRun = useCallback(
+                async (sessionId: string): Promise<{ job: MagiJob; data: any }> => {
+                        const start = Date.now();
+                        while (Date.now() - start < RUN_OBSERVE_TIMEOUT_MS) {
+                                const data = await fetchFull(sessionId);
+                                const job = (data?.job ?? null) as MagiJob | null;
+                                if (job) {
+                                        if (job.diagnostics) setDebug(formatDiagnosticSummary(job.diagnostics));
+                                        if (typeof job.round === "number") setDebateRound(job.round);
+                                        if (job.status === "complete") return { job, data };
+                                        if (job.status === "error") throw new Error(job.error || "Run failed");
+                                        if (job.status === "cancelled") throw new Error("Run cancelled");
+                                        if (isJobStalled(job)) throw new Error("Run stalled on the server. Resume it to continue.");
+                                        if (job.current_step) {
+                                                setStep(STEP_BY_WORKFLOW[job.current_step]);
+                                                setCurrentStage(STAGE_BY_WORKFLOW[job.current_step]);
+                                        }
                                 }
+                                await new Promise((r) => setTimeout(r, RUN_POLL_INTERVAL_MS));
                         }
-			await new Promise((r) => setTimeout(r, intervalMs));
-		}
-		setError(`${label} timed out. Please try again.`);
-		setStep("error");
-		return false;
-	}
+                        throw new Error("Run is still in progress on the server. Reopen it later to see the result.");
+                },
+                [fetchFull, formatDiagnosticSummary]
+        );
 
-        const runStep = useCallback(async (sessionId: string, s: "propose" | "vote" | "consensus") => {
-                const keys = getKeys();
-                const res = await fetch(`/api/magi/session/${sessionId}/step`, {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json" },
-                        body: JSON.stringify({ step: s, keys }),
-                });
-		const data = await res.json();
-		if (!data.ok) throw new Error(data.error || `Step ${s} failed`);
-		// Optimistically merge any returned artifacts so UI reflects immediately
-                setMessages((prev) => {
-                        let next = prev.slice();
-                        if (Array.isArray(data.proposals)) {
-                                next = next.concat(data.proposals as MagiMessage[]);
-                                setDisplayProposals(data.proposals as MagiMessage[]);
+        const closeStream = useCallback(() => {
+                eventSourceRef.current?.close();
+                eventSourceRef.current = null;
+        }, []);
+
+        // Streamed events only drive the live view; the polled job stays the
+        // source of truth for completion, so a dropped stream costs nothing.
+        const openStream = useCallback(
+                (sessionId: string) => {
+                        closeStream();
+                        if (typeof window === "undefined" || typeof EventSource === "undefined") return;
+                        const source = new EventSource(`/api/magi/session/${sessionId}/stream`);
+                        const handle = (raw: Event) => {
+                                let event: MagiStreamEvent;
+                                try {
+                                        event = JSON.parse((raw as MessageEvent<string>).data) as MagiStreamEvent;
+                                } catch {
+                                        return;
+                                }
+                                if (event.type === "stage") {
+                                        if (event.status === "started") {
+                                                setStep(STEP_BY_WORKFLOW[event.step]);
+                                                setCurrentStage(STAGE_BY_WORKFLOW[event.step]);
+                                                setDebateRound(event.round);
+                                        }
+                                        return;
+                                }
+                                setLiveOutputs((prev) => applyStreamEvent(prev, event));
+                                window.dispatchEvent(new CustomEvent("magi-agent-stream", { detail: event }));
+                        };
+                        for (const type of ["stage", "agent", "delta", "tool"]) {
+                                source.addEventListener(type, handle);
                         }
-                        // Critiques removed
-                        if (data.finalMessage) {
-                                next = next.concat([data.finalMessage as MagiMessage]);
-                                setDisplayConsensus(data.finalMessage as MagiMessage);
+                        eventSourceRef.current = source;
+                },
+                [closeStream]
+        );
+
+        useEffect(() => closeStream, [closeStream]);
+
+        const startRun = useCallback(
+                async (sessionId: string) => {
+                        let finalData: any = null;
+                        openStream(sessionId);
+                        try {
+                                const res = await fetch(`/api/magi/session/${sessionId}/run`, {
+                                        method: "POST",
+                                        headers: { "Content-Type": "application/json" },
+                                        body: JSON.stringify({ keys: getKeys() }),
+                                });
+                                const data = await res.json();
+                                if (!data.ok) throw new Error(data.error || "Failed to start run");
+                                setJob(data.job as MagiJob);
+                                ({ data: finalData } = await observeRun(sessionId));
+                        } finally {
+                                closeStream();
                         }
-                        return next;
-                });
-                if (Array.isArray(data.votes)) updateDisplayVotes(data.votes as MagiVote[]);
-                if (data.diagnostics) {
-                        const diagArray = Array.isArray(data.diagnostics)
-                                ? (data.diagnostics as MagiStepDiagnostics[])
-                                : [data.diagnostics as MagiStepDiagnostics];
-                        const last = diagArray[diagArray.length - 1];
-                        setDebug(formatDiagnosticSummary(last));
-                } else {
-                        setDebug(
-                                `step=${s} proposals=${Array.isArray(data.proposals) ? data.proposals.length : 0} votes=${Array.isArray(data.votes) ? data.votes.length : 0} final=${data.finalMessage ? 1 : 0}`
+                        const finalMessage: MagiMessage | null =
+                                (finalData?.messages || []).filter((m: MagiMessage) => m.role === "consensus").pop() ?? null;
+                        setStep("done");
+                        setCurrentStage("done");
+                        setSessions((prev) =>
+                                prev.map((s) =>
+                                        s.id === sessionId
+                                                ? {
+                                                          ...s,
+                                                          status: (finalData?.session?.status as MagiSession["status"] | undefined) ?? "consensus",
+                                                          updated_at: new Date().toISOString(),
+                                                          finalMessageId: finalMessage?.id ?? s.finalMessageId ?? null,
+                                                          consensusSummary: finalMessage?.content ?? s.consensusSummary ?? null,
+                                                  }
+                                                : s
+                                )
                         );
+                        loadSessions();
+                },
+                [closeStream, getKeys, loadSessions, observeRun, openStream]
+        );
+
+        const onResume = useCallback(async () => {
+                if (!session) return;
+                setError(null);
+                try {
+                        setStep("proposing");
+                        await startRun(session.id);
+                } catch (e: any) {
+                        setError(e?.message || "Unexpected error");
+                        setStep("error");
                 }
-                // Always follow with a fresh pull in case there are additional rows (votes, etc.)
-                await fetchFull(sessionId);
-                // And a brief delayed refresh to avoid any replication lag
-                setTimeout(() => fetchFull(sessionId), 150);
-                return data;
-        }, [fetchFull, formatDiagnosticSummary, getKeys]);
+        }, [session, startRun]);
+
+        const onCancel = useCallback(async () => {
+                if (!session) return;
+                setCancelling(true);
+                try {
+                        const res = await fetch(`/api/magi/session/${session.id}/cancel`, { method: "POST" });
+                        const data = await res.json();
+                        if (!data.ok) throw new Error(data.error || "Failed to cancel run");
+                        if (data.job) setJob(data.job as MagiJob);
+                } catch (e: any) {
+                        setError(e?.message || "Unexpected error");
+                } finally {
+                        setCancelling(false);
+                }
+        }, [session]);
 
         const onRun = useCallback(async () => {
                 setError(null);
@@ -682,17 +980,25 @@ export default function MagiConsensusControl() {
                 setMessages([]);
                 setConsensus(null);
                 setAgents([]);
+                setJob(null);
                 setDisplayProposals([]);
+                setDisplayCritiques([]);
                 setDisplayConsensus(null);
                 setDisplayVotes([]);
+                setLiveOutputs([]);
                 setDebug(null);
+                setDebateRound(1);
                 setCurrentStage("idle");
                 if (!supabaseBrowser) {
                         setError("Auth not initialized");
                         return;
                 }
+                if (rosterAgents.length < MIN_ROSTER_SIZE) {
+                        setError(`Pick at least ${MIN_ROSTER_SIZE} agents.`);
+                        return;
+                }
                 if (!verifiedAll) {
-                        setError("All three providers must be linked first.");
+                        setError("Every selected agent must be linked first.");
                         return;
                 }
                 if (artifact && artifact.status !== "ready") {
@@ -724,6 +1030,22 @@ export default function MagiConsensusControl() {
                                         keys,
                                         artifactId: attachedArtifactId,
                                         liveUrl: sanitizedLiveUrl ?? undefined,
+                                        settings: {
+                                                debateRounds,
+                                                consensusMode,
+                                                proposalConcurrency,
+                                                quorum,
+                                                budget: sessionBudget,
+                                                agentIds: rosterAgents.map((a) => a.id),
+                                                votingScheme,
+                                                agentWeights,
+                                                rubric: parseRubricText(rubricInput),
+                                                blindVoting,
+                                                scoreCalibration,
+                                                verdict: verdictProposition.trim()
+                                                        ? { proposition: verdictProposition.trim(), rule: verdictRule }
+                                                        : null,
+                                        },
                                 }),
                         });
                         const created = await createRes.json();
@@ -754,85 +1076,44 @@ export default function MagiConsensusControl() {
                         }
                         await fetchFull(sessionId);
 
+                        // The server runs every stage; the browser only watches the job.
                         setStep("proposing");
                         setCurrentStage("proposing");
-                        const proposeData = await runStep(sessionId, "propose");
-                        // If the step already returned proposals, don't wait further
-                        const returnedProposals = Array.isArray(proposeData?.proposals) ? proposeData.proposals.length : 0;
-                        if (returnedProposals === 0) {
-                                const okProposals = await waitFor(
-                                        sessionId,
-                                        (d) => Array.isArray(d?.messages) && d.messages.some((m: any) => m.role === "agent_proposal"),
-                                        "Proposals"
-                                );
-                                if (!okProposals) return;
-                        }
-
-                        setStep("voting");
-                        setCurrentStage("voting");
-                        const voteData = await runStep(sessionId, "vote");
-                        const returnedVotes = Array.isArray(voteData?.votes) ? voteData.votes.length : 0;
-                        if (returnedVotes === 0) {
-                                const okVotes = await waitFor(
-                                        sessionId,
-                                        (d) => Array.isArray(d?.votes) && d.votes.length > 0,
-                                        "Votes"
-                                );
-                                if (!okVotes) return;
-                        }
-
-                        setStep("finalizing");
-                        setCurrentStage("finalizing");
-                        const finalData = await runStep(sessionId, "consensus");
-                        const hasConsensus = Boolean(finalData?.finalMessage);
-                        if (!hasConsensus) {
-                                const okConsensus = await waitFor(
-                                        sessionId,
-                                        (d) =>
-                                                Array.isArray(d?.messages) &&
-                                                d.messages.some((m: any) => m.role === "consensus"),
-                                        "Consensus"
-                                );
-                                if (!okConsensus) return;
-                        }
-
-                        setStep("done");
-                        setCurrentStage("done");
-                        setDebug("Consensus ready");
-                        setSessions((prev) =>
-                                prev.map((s) =>
-                                        s.id === sessionId
-                                                ? {
-                                                          ...s,
-                                                          status: "consensus",
-                                                          updated_at: new Date().toISOString(),
-                                                          finalMessageId: finalData?.finalMessage?.id ?? s.finalMessageId ?? null,
-                                                          consensusSummary: finalData?.finalMessage?.content ?? s.consensusSummary ?? null,
-                                                          artifact_id: s.artifact_id ?? attachedArtifactId ?? null,
-                                                  }
-                                                : s
-                                )
-                        );
-                        loadSessions();
+                        await startRun(sessionId);
                 } catch (e: any) {
                         setError(e?.message || "Unexpected error");
                         setStep("error");
                 }
         }, [
+                agentWeights,
                 artifact,
+                consensusMode,
+                debateRounds,
                 fetchFull,
                 getKeys,
                 getUserId,
                 loadSessions,
                 liveUrlError,
                 normalizedLiveUrl,
+                proposalConcurrency,
                 question,
-                runStep,
+                quorum,
+                rosterAgents,
+                rubricInput,
+                blindVoting,
+                scoreCalibration,
+                verdictProposition,
+                verdictRule,
+                sessionBudget,
                 showHistory,
+                startRun,
                 verifiedAll,
+                votingScheme,
         ]);
 
         const proposals = displayProposals.length > 0 ? displayProposals : messages.filter((m) => m.role === "agent_proposal");
+        const critiques = displayCritiques.length > 0 ? displayCritiques : messages.filter((m) => m.role === "agent_critique");
+        const sessionUsage = useMemo(() => sumUsageRows([...messages, ...displayVotes]), [messages, displayVotes]);
         const consensusMessage = displayConsensus ?? messages.find((m) => m.role === "consensus") ?? null;
         const consensusMeta =
                 consensusMessage && typeof consensusMessage.meta === "object" && consensusMessage.meta
@@ -854,6 +1135,33 @@ export default function MagiConsensusControl() {
                         (consensusMeta["score"] as number | undefined | null);
                 return typeof rawScore === "number" ? rawScore : null;
         }, [consensusMeta]);
+        const consensusScheme = typeof consensusMeta?.["votingScheme"] === "string" ? (consensusMeta["votingScheme"] as string) : null;
+        // How the winner was reached, from the consensus step's diagnostics.
+        const consensusVoting = job?.diagnostics?.step === "consensus" ? job.diagnostics.voting ?? null : null;
+        const consensusCalibration = job?.diagnostics?.step === "consensus" ? job.diagnostics.calibration ?? null : null;
+        const consensusSynthesized = consensusMeta?.["mode"] === "synthesize";
+        const consensusSynthesizerId =
+                typeof consensusMeta?.["synthesizerAgentId"] === "string" ? (consensusMeta["synthesizerAgentId"] as string) : null;
+        const consensusSourceIds = useMemo(() => {
+                const raw = consensusMeta?.["sourceMessageIds"];
+                return Array.isArray(raw) ? raw.filter((id): id is number => typeof id === "number") : [];
+        }, [consensusMeta]);
+        const consensusAbsent = useMemo(() => {
+                const raw = consensusMeta?.["absentAgents"];
+                return Array.isArray(raw) ? (raw as MagiAbsentAgent[]) : [];
+        }, [consensusMeta]);
+        const consensusPoints = useMemo(() => {
+                const provenance = consensus?.provenance;
+                if (!provenance || provenance.mode !== "synthesize") return [];
+                return Array.isArray(provenance.points) ? provenance.points : [];
+        }, [consensus]);
+        const consensusFindings = consensus?.provenance?.findings ?? null;
+        const consensusDissent = consensus?.provenance?.dissent ?? [];
+        const consensusVerdict = consensus?.provenance?.verdict ?? null;
+        // MagiTriad shows each core's ballot.
+        useEffect(() => {
+                window.dispatchEvent(new CustomEvent("magi-verdict", { detail: consensusVerdict }));
+        }, [consensusVerdict]);
         const votesSource = useMemo(() => {
                 return displayVotes;
         }, [displayVotes]);
@@ -937,10 +1245,10 @@ return parts.join(" • ");
                 return map;
         }, [messages]);
 
-        const stepOrder: Step[] = ["idle", "creating", "proposing", "voting", "finalizing", "done", "error"];
+        const stepOrder: Step[] = ["idle", "creating", "proposing", "critiquing", "voting", "revising", "finalizing", "done", "error"];
 
         const computeStageStatus = useCallback(
-                (stageKey: "proposing" | "voting" | "finalizing") => {
+                (stageKey: "proposing" | "critiquing" | "voting" | "finalizing") => {
                         if (step === "error") {
                                 const stageIndex = stepOrder.indexOf(stageKey);
                                 const progressIndex = stepOrder.indexOf(currentStage);
@@ -955,8 +1263,9 @@ return parts.join(" • ");
                 [currentStage, step]
         );
 
-        const stageLabels: { key: "proposing" | "voting" | "finalizing"; label: string; description: string }[] = [
+        const stageLabels: { key: "proposing" | "critiquing" | "voting" | "finalizing"; label: string; description: string }[] = [
                 { key: "proposing", label: "Proposals", description: "Each MAGI core drafts an initial response." },
+                { key: "critiquing", label: "Critiques", description: "Cores challenge each other's drafts before scoring." },
                 { key: "voting", label: "Voting", description: "Arguments are scored to select the strongest path." },
                 { key: "finalizing", label: "Consensus", description: "The council synthesizes a unified answer." },
         ];
@@ -974,6 +1283,10 @@ return parts.join(" • ");
                 return proposals.slice().sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
         }, [proposals]);
 
+        const sortedCritiques = useMemo(() => {
+                return critiques.slice().sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+        }, [critiques]);
+
         const sortedVotes = useMemo(() => {
                 return votes.slice().sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
         }, [votes]);
@@ -982,7 +1295,7 @@ return parts.join(" • ");
 		<section className="mt-8">
 			<header className="mb-3">
 				<h2 className="title-text text-lg font-bold text-white/90">MAGI Consensus</h2>
-				<p className="ui-text text-white/60 text-sm">Ask once. Three cores deliberate, then answer.</p>
+				<p className="ui-text text-white/60 text-sm">Ask once. The cores deliberate, then answer.</p>
 			</header>
                         <div className="magi-panel border-white/15 p-4 relative">
 				<input ref={fileInputRef} type="file" accept=".zip" className="hidden" onChange={onFileInputChange} />
@@ -1107,6 +1420,200 @@ Token budget: {artifactTokenSummary}
                                         className="w-full rounded-md bg-white/10 border border-white/20 px-3 py-2 outline-none focus:ring-2 focus:ring-magiBlue/40"
                                         placeholder="e.g., Audit the uploaded payments service for security flaws"
                                 />
+                                <div className="mt-3 flex flex-wrap items-center gap-4">
+                                        <label className="ui-text text-xs text-white/60 flex items-center gap-2">
+                                                Debate rounds
+                                                <input
+                                                        type="number"
+                                                        min={1}
+                                                        max={MAX_DEBATE_ROUNDS}
+                                                        value={debateRounds}
+                                                        onChange={(e) => {
+                                                                const parsed = Number.parseInt(e.target.value, 10);
+                                                                setDebateRounds(
+                                                                        Number.isFinite(parsed) ? Math.max(1, Math.min(MAX_DEBATE_ROUNDS, parsed)) : DEFAULT_DEBATE_ROUNDS
+                                                                );
+                                                        }}
+                                                        className="w-16 rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                />
+                                        </label>
+                                        <label className="ui-text text-xs text-white/60 flex items-center gap-2">
+                                                Parallel agents
+                                                <input
+                                                        type="number"
+                                                        min={1}
+                                                        max={MAX_PROPOSAL_CONCURRENCY}
+                                                        value={proposalConcurrency}
+                                                        onChange={(e) => {
+                                                                const parsed = Number.parseInt(e.target.value, 10);
+                                                                setProposalConcurrency(
+                                                                        Number.isFinite(parsed)
+                                                                                ? Math.max(1, Math.min(MAX_PROPOSAL_CONCURRENCY, parsed))
+                                                                                : DEFAULT_PROPOSAL_CONCURRENCY
+                                                                );
+                                                        }}
+                                                        className="w-16 rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                />
+                                        </label>
+                                        <div className="ui-text text-xs text-white/60 flex flex-wrap items-center gap-2">
+                                                Agents
+                                                {availableAgents.map((a) => (
+                                                        <label
+                                                                key={a.id}
+                                                                className="flex items-center gap-1 rounded-md bg-white/10 border border-white/20 px-2 py-1"
+                                                                title={[a.provider, a.model].filter(Boolean).join(" · ")}
+                                                        >
+                                                                <input
+                                                                        type="checkbox"
+                                                                        checked={rosterIds.includes(a.id)}
+                                                                        onChange={() => toggleRosterAgent(a.id)}
+                                                                />
+                                                                {a.name}
+                                                                {rosterIds.includes(a.id) && (
+                                                                        <input
+                                                                                type="number"
+                                                                                min={0}
+                                                                                max={MAX_AGENT_WEIGHT}
+                                                                                step={0.5}
+                                                                                value={agentWeights[a.id] ?? 1}
+                                                                                title="Trust weight applied to this agent's votes"
+                                                                                onChange={(e) => {
+                                                                                        const parsed = Number.parseFloat(e.target.value);
+                                                                                        setAgentWeights((prev) => ({
+                                                                                                ...prev,
+                                                                                                [a.id]: Number.isFinite(parsed)
+                                                                                                        ? Math.max(0, Math.min(MAX_AGENT_WEIGHT, parsed))
+                                                                                                        : 1,
+                                                                                        }));
+                                                                                }}
+                                                                                className="w-12 rounded bg-white/10 border border-white/20 px-1 outline-none"
+                                                                        />
+                                                                )}
+                                                        </label>
+                                                ))}
+                                        </div>
+                                        <label className="ui-text text-xs text-white/60 flex items-center gap-2">
+                                                Quorum
+                                                <select
+                                                        value={quorum === null ? "all" : String(quorum)}
+                                                        onChange={(e) => setQuorum(e.target.value === "all" ? null : Number.parseInt(e.target.value, 10))}
+                                                        className="rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                >
+                                                        <option value="all">All agents</option>
+                                                        {Array.from({ length: Math.max(0, rosterAgents.length - 1) }, (_, i) => rosterAgents.length - 1 - i).map(
+                                                                (n) => (
+                                                                        <option key={n} value={String(n)}>
+                                                                                {n} of {rosterAgents.length}
+                                                                        </option>
+                                                                )
+                                                        )}
+                                                </select>
+                                        </label>
+                                        <label className="ui-text text-xs text-white/60 flex items-center gap-2">
+                                                Voting
+                                                <select
+                                                        value={votingScheme}
+                                                        onChange={(e) => setVotingScheme(e.target.value as MagiVotingScheme)}
+                                                        className="rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                >
+                                                        <option value="sum">Sum of scores</option>
+                                                        <option value="mean">Mean score</option>
+                                                        <option value="median">Median score</option>
+                                                        <option value="borda">Borda count</option>
+                                                        <option value="condorcet">Condorcet (head to head)</option>
+                                                </select>
+                                        </label>
+                                        <label
+                                                className="ui-text text-xs text-white/60 flex items-center gap-2"
+                                                title="Each core approves, rejects or abstains on this statement after consensus; leave empty to skip"
+                                        >
+                                                Verdict
+                                                <input
+                                                        type="text"
+                                                        value={verdictProposition}
+                                                        onChange={(e) => setVerdictProposition(e.target.value)}
+                                                        placeholder="e.g. this release is safe to ship"
+                                                        className="w-64 rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                />
+                                                <select
+                                                        value={verdictRule}
+                                                        onChange={(e) => setVerdictRule(e.target.value === "unanimity" ? "unanimity" : "majority")}
+                                                        disabled={!verdictProposition.trim()}
+                                                        className="rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40 disabled:opacity-60"
+                                                >
+                                                        <option value="majority">Majority</option>
+                                                        <option value="unanimity">Unanimity (veto)</option>
+                                                </select>
+                                        </label>
+                                        <label className="ui-text text-xs text-white/60 flex items-center gap-2">
+                                                Calibration
+                                                <select
+                                                        value={scoreCalibration}
+                                                        onChange={(e) => setScoreCalibration(e.target.value as MagiScoreCalibration)}
+                                                        title="Rescale each agent's scores against its own average before tallying"
+                                                        className="rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                >
+                                                        <option value="none">Raw scores</option>
+                                                        <option value="session">Per agent, this session</option>
+                                                        <option value="history">Per agent, vote history</option>
+                                                </select>
+                                        </label>
+                                        <label
+                                                className="ui-text text-xs text-white/60 flex items-center gap-2"
+                                                title="Voters see anonymized proposals under random aliases, in shuffled order"
+                                        >
+                                                <input type="checkbox" checked={blindVoting} onChange={(e) => setBlindVoting(e.target.checked)} />
+                                                Blind
+                                        </label>
+                                        <label className="ui-text text-xs text-white/60 flex items-center gap-2">
+                                                Rubric
+                                                <input
+                                                        type="text"
+                                                        value={rubricInput}
+                                                        onChange={(e) => setRubricInput(e.target.value)}
+                                                        title="Vote criteria as name:weight, comma separated"
+                                                        className="w-72 rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                />
+                                        </label>
+                                        <label className="ui-text text-xs text-white/60 flex items-center gap-2">
+                                                Consensus
+                                                <select
+                                                        value={consensusMode}
+                                                        onChange={(e) => setConsensusMode(e.target.value === "synthesize" ? "synthesize" : "select")}
+                                                        className="rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                >
+                                                        <option value="select">Top-scored proposal</option>
+                                                        <option value="synthesize">Synthesized report</option>
+                                                </select>
+                                        </label>
+                                        <label className="ui-text text-xs text-white/60 flex items-center gap-2">
+                                                Budget
+                                                <input
+                                                        type="number"
+                                                        min={0}
+                                                        step={budgetUnit === "usd" ? 0.1 : 1000}
+                                                        value={budgetAmount}
+                                                        onChange={(e) => setBudgetAmount(e.target.value)}
+                                                        placeholder="none"
+                                                        className="w-24 rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                />
+                                                <select
+                                                        value={budgetUnit}
+                                                        onChange={(e) => setBudgetUnit(e.target.value === "tokens" ? "tokens" : "usd")}
+                                                        className="rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+                                                >
+                                                        <option value="usd">USD</option>
+                                                        <option value="tokens">tokens</option>
+                                                </select>
+                                        </label>
+                                </div>
+                                {budgetWarnings.length > 0 && (
+                                        <div className="mt-3 ui-text text-xs text-amber-300/90 border border-amber-300/30 bg-amber-300/5 rounded px-3 py-2 space-y-1">
+                                                {budgetWarnings.map((warning) => (
+                                                        <div key={warning}>{warning}</div>
+                                                ))}
+                                        </div>
+                                )}
                                 <div className="mt-3 flex flex-wrap items-center gap-3">
                                         <button
                                                 onClick={onRun}
@@ -1117,6 +1624,10 @@ Token budget: {artifactTokenSummary}
                                                         ? "Creating…"
                                                         : step === "proposing"
                                                                 ? "Gathering proposals…"
+                                                                : step === "critiquing"
+                                                                        ? "Exchanging critiques…"
+                                                                        : step === "revising"
+                                                                                ? `Revising positions (round ${debateRound + 1})…`
                                                                         : step === "voting"
                                                                                 ? "Collecting votes…"
                                                                                 : step === "finalizing"
@@ -1125,10 +1636,33 @@ Token budget: {artifactTokenSummary}
                                                                                                 ? "Run Again"
                                                                                                 : "Run MAGI"}
                                         </button>
+                                        {session && isJobResumable(job) && (step === "error" || step === "idle" || step === "done") && (
+                                                <button
+                                                        onClick={onResume}
+                                                        className="px-4 py-1.5 rounded-md border border-magiOrange/50 bg-white/10 hover:bg-white/15 ui-text text-sm"
+                                                        title={job?.last_completed_step ? `Resume after ${job.last_completed_step}` : "Resume run"}
+                                                >
+                                                        Resume run
+                                                </button>
+                                        )}
+                                        {session && step !== "idle" && step !== "done" && step !== "error" && step !== "creating" && (
+                                                <button
+                                                        onClick={onCancel}
+                                                        disabled={cancelling}
+                                                        className="px-4 py-1.5 rounded-md border border-red-400/50 bg-white/10 hover:bg-white/15 ui-text text-sm disabled:opacity-60"
+                                                >
+                                                        {cancelling ? "Cancelling…" : "Cancel run"}
+                                                </button>
+                                        )}
                                         <span className="ui-text text-xs text-white/50">
                                                 {displayProposals.length || proposals.length} proposals tracked
                                         </span>
-                                        {!verifiedAll && <span className="ui-text text-xs text-red-400">Link all three providers first</span>}
+                                        {session && (
+                                                <span className="ui-text text-xs text-white/50" title={`${sessionUsage.tokens.toLocaleString()} tokens`}>
+                                                        Cost {formatCost(sessionUsage.costUsd)}
+                                                </span>
+                                        )}
+                                        {!verifiedAll && <span className="ui-text text-xs text-red-400">Link every selected agent first</span>}
                                         {error && <span className="ui-text text-xs text-red-400">{error}</span>}
                                 </div>
                         </div>
@@ -1158,7 +1692,10 @@ Token budget: {artifactTokenSummary}
                                                                 {stage.key === "proposing" && (
                                                                         <div className="mt-3">
                                                                                 <div className="flex items-center justify-between">
-                                                                                        <span className="ui-text text-[11px] text-white/50">{sortedProposals.length} captured</span>
+                                                                                        <span className="ui-text text-[11px] text-white/50">
+                                                                                                {sortedProposals.length} captured
+                                                                                                {debateRounds > 1 ? ` · round ${debateRound}/${debateRounds}` : ""}
+                                                                                        </span>
                                                                                         <button
                                                                                                 type="button"
                                                                                                 onClick={() => setShowProposalsModal(true)}
@@ -1170,6 +1707,22 @@ Token budget: {artifactTokenSummary}
                                                                         </div>
                                                                 )}
 
+                                                                {/* Critiques quick summary + modal trigger */}
+                                                                {stage.key === "critiquing" && (
+                                                                        <div className="mt-3">
+                                                                                <div className="flex items-center justify-between">
+                                                                                        <span className="ui-text text-[11px] text-white/50">{sortedCritiques.length} exchanged</span>
+                                                                                        <button
+                                                                                                type="button"
+                                                                                                onClick={() => setShowCritiquesModal(true)}
+                                                                                                className="ui-text text-[11px] px-2 py-0.5 rounded border border-white/15 bg-white/10 hover:bg-white/15"
+                                                                                        >
+                                                                                                View
+                                                                                        </button>
+                                                                                </div>
+                                                                        </div>
+                                                                )}
+
                                                                 {/* Voting quick summary + modal trigger */}
                                                                 {stage.key === "voting" && (
                                                                         <div className="mt-3">
@@ -1191,6 +1744,48 @@ Token budget: {artifactTokenSummary}
                                 </div>
                         </div>
 
+                        {/* Live agent output streamed from the server run */}
+                        {liveOutputs.length > 0 && step !== "done" && (
+                                <div className="mt-4 magi-panel border-white/15 p-4">
+                                        <div className="title-text text-sm font-semibold text-white/80">Live Output</div>
+                                        <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+                                                {liveOutputs
+                                                        .filter((o) => o.status === "started" || o.text)
+                                                        .slice(-6)
+                                                        .map((o) => (
+                                                                <div key={o.streamId} className="bg-white/10 border border-white/10 rounded p-3">
+                                                                        <div className="flex items-center justify-between">
+                                                                                <span className="ui-text text-xs font-semibold text-white/80">
+                                                                                        {o.agentName} · {o.step}
+                                                                                        {o.targetMessageId !== null ? ` #${o.targetMessageId}` : ""}
+                                                                                </span>
+                                                                                <span
+                                                                                        className={clsx(
+                                                                                                "ui-text text-[10px] uppercase tracking-widest",
+                                                                                                o.status === "failed" ? "text-red-400" : o.status === "complete" ? "text-white/40" : "text-magiGreen"
+                                                                                        )}
+                                                                                >
+                                                                                        {o.status === "started" ? "streaming" : o.status}
+                                                                                </span>
+                                                                        </div>
+                                                                        {o.tools.length > 0 && (
+                                                                                <ul className="mt-2 space-y-0.5">
+                                                                                        {o.tools.map((tool, i) => (
+                                                                                                <li key={i} className="ui-text text-[11px] text-magiBlue break-all">
+                                                                                                        {tool}
+                                                                                                </li>
+                                                                                        ))}
+                                                                                </ul>
+                                                                        )}
+                                                                        <div className="ui-text text-xs text-white/70 whitespace-pre-wrap mt-2 max-h-40 overflow-auto no-scrollbar">
+                                                                                {o.text || "…"}
+                                                                        </div>
+                                                                </div>
+                                                        ))}
+                                        </div>
+                                </div>
+                        )}
+
                         {/* History detail modal */}
                         {showHistoryDetail && (
                                 <div className="fixed inset-0 z-50">
@@ -1232,6 +1827,31 @@ Token budget: {artifactTokenSummary}
                                                                                         </a>
                                                                                 </div>
                                                                         )}
+                                                                        {historyDetail.positions.some((entry) => entry.history.length > 1) && (
+                                                                                <div className="bg-black border border-white/10 rounded p-3">
+                                                                                        <div className="title-text text-sm font-semibold text-white/80">Debate Trajectory</div>
+                                                                                        <div className="mt-2 space-y-3">
+                                                                                                {historyDetail.positions.map((entry) => (
+                                                                                                        <div key={entry.agentId}>
+                                                                                                                <div className="ui-text text-xs font-semibold text-white/70">{entry.name}</div>
+                                                                                                                <ol className="mt-1 space-y-1">
+                                                                                                                        {entry.history.map((position) => (
+                                                                                                                                <li key={position.messageId} className="ui-text text-xs text-white/60">
+                                                                                                                                        <span className="text-white/80">R{position.round}</span> · #{position.messageId}
+                                                                                                                                        {position.revisionOf !== null ? ` (revises #${position.revisionOf})` : ""}
+                                                                                                                                        {" · "}
+                                                                                                                                        {position.averageScore !== null
+                                                                                                                                                ? `avg score ${position.averageScore} from ${position.voteCount} votes`
+                                                                                                                                                : "unscored"}
+                                                                                                                                        <div className="text-white/50">{position.preview}</div>
+                                                                                                                                </li>
+                                                                                                                        ))}
+                                                                                                                </ol>
+                                                                                                        </div>
+                                                                                                ))}
+                                                                                        </div>
+                                                                                </div>
+                                                                        )}
                                                                         <div className="bg-black border border-white/10 rounded p-3">
                                                                                 <div className="title-text text-sm font-semibold text-white/80">Final Consensus</div>
                                                                                 {historyDetail.finalMessage ? (
@@ -1287,11 +1907,28 @@ Token budget: {artifactTokenSummary}
                                                                                                                 agentProposals.map((proposal) => {
                                                                         const httpRequestCount = readMessageMetaNumber(proposal.meta, "httpRequestCount") ?? 0;
                                                                         const httpLabel = httpRequestCount === 1 ? "1 HTTP probe" : `${httpRequestCount} HTTP probes`;
+                                                                        const revisedFrom = revisionOf(proposal);
+                                                                        const providerUsed = readMessageMetaString(proposal.meta, "actualProvider") ?? a.provider;
+                                                                        const failedOver = providerUsed !== a.provider;
                                                                         return (
                                                                                 <div key={proposal.id} className="bg-black border border-white/10 rounded p-3">
                                                                                         <div className="ui-text text-[11px] text-white/50 flex items-center justify-between gap-2">
-                                                                                                <span>#{proposal.id}</span>
-                                                                                                <span>{httpLabel}</span>
+                                                                                                <span>
+                                                                                                        #{proposal.id} · R{messageRound(proposal)}
+                                                                                                        {revisedFrom !== null ? ` · revises #${revisedFrom}` : ""}
+                                                                                                </span>
+                                                                                                <span className="flex items-center gap-2">
+                                                                                                        <span
+                                                                                                                title={failedOver ? `Failed over from ${a.provider}` : undefined}
+                                                                                                                className={clsx(
+                                                                                                                        "px-1.5 py-0.5 rounded border uppercase tracking-widest text-[10px]",
+                                                                                                                        failedOver ? "border-amber-300/40 text-amber-300/90" : "border-white/15 text-white/50"
+                                                                                                                )}
+                                                                                                        >
+                                                                                                                {failedOver ? `via ${providerUsed}` : providerUsed}
+                                                                                                        </span>
+                                                                                                        <span>{httpLabel}</span>
+                                                                                                </span>
                                                                                         </div>
 
                                                                                         <div className="ui-text text-sm text-white/80 whitespace-pre-wrap mt-2">
@@ -1316,6 +1953,67 @@ Token budget: {artifactTokenSummary}
                                 </div>
                         )}
 
+                        {showCritiquesModal && (
+                                <div className="fixed inset-0 z-50">
+                                        <div className="absolute inset-0 bg-black/70" onClick={() => setShowCritiquesModal(false)} />
+                                        <div className="relative z-10 mx-auto my-8 w-[95vw] max-w-5xl bg-black border border-white/15 rounded-lg shadow-xl">
+                                                <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+                                                        <div className="title-text text-base font-semibold text-white/90">Peer Critiques</div>
+                                                        <button
+                                                                onClick={() => setShowCritiquesModal(false)}
+                                                                className="ui-text text-xs px-2 py-0.5 rounded border border-white/20 hover:bg-white/10"
+                                                        >
+                                                                Close
+                                                        </button>
+                                                </div>
+                                                <div className="p-4 max-h-[80vh] overflow-auto no-scrollbar">
+                                                        {agents.length > 0 ? (
+                                                                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                                                        {agents.map((a) => {
+                                                                                const agentCritiques = sortedCritiques.filter((c) => c.agent_id === a.id);
+                                                                                return (
+                                                                                        <div key={a.id} className="bg-black border border-white/10 rounded p-3">
+                                                                                                <div className="flex items-center justify-between">
+                                                                                                        <div className="title-text text-sm font-semibold text-white/80">{a.name}</div>
+                                                                                                        <span className="ui-text text-[11px] uppercase tracking-widest text-white/40">{a.provider}</span>
+                                                                                                </div>
+                                                                                                <div className="mt-3 space-y-3">
+                                                                                                        {agentCritiques.length > 0 ? (
+                                                                                                                agentCritiques.map((critique) => {
+                                                                                                                        const targetId = readMessageMetaNumber(critique.meta, "targetMessageId");
+                                                                                                                        const target = targetId !== null ? messageById[targetId] : undefined;
+                                                                                                                        const targetAuthor = target?.agent_id ? agentById[target.agent_id] : undefined;
+                                                                                                                        return (
+                                                                                                                                <div key={critique.id} className="bg-black border border-white/10 rounded p-3">
+                                                                                                                                        <div className="ui-text text-[11px] text-white/50 flex items-center justify-between gap-2">
+                                                                                                                                                <span>#{critique.id}</span>
+                                                                                                                                                <span>
+                                                                                                                                                        {targetId !== null ? `on proposal #${targetId}` : "untargeted"}
+                                                                                                                                                        {targetAuthor ? ` (${targetAuthor.name})` : ""}
+                                                                                                                                                </span>
+                                                                                                                                        </div>
+                                                                                                                                        <div className="ui-text text-sm text-white/80 whitespace-pre-wrap mt-2">
+                                                                                                                                                {critique.content}
+                                                                                                                                        </div>
+                                                                                                                                </div>
+                                                                                                                        );
+                                                                                                                })
+                                                                                                        ) : (
+                                                                                                                <div className="ui-text text-sm text-white/50">No critiques recorded.</div>
+                                                                                                        )}
+                                                                                                </div>
+                                                                                        </div>
+                                                                                );
+                                                                        })}
+                                                                </div>
+                                                        ) : (
+                                                                <div className="ui-text text-sm text-white/50 mt-2">Awaiting agent telemetry.</div>
+                                                        )}
+                                                </div>
+                                        </div>
+                                </div>
+                        )}
+
                         {showVotesModal && (
                                 <div className="fixed inset-0 z-50">
                                         <div className="absolute inset-0 bg-black/70" onClick={() => setShowVotesModal(false)} />
@@ -1337,6 +2035,7 @@ Token budget: {artifactTokenSummary}
                                                                                         <th className="py-2 pr-4 font-normal">Agent</th>
                                                                                         <th className="py-2 pr-4 font-normal">Target</th>
                                                                                         <th className="py-2 pr-4 font-normal">Score</th>
+                                                                                        <th className="py-2 pr-4 font-normal">Breakdown</th>
                                                                                         <th className="py-2 pr-4 font-normal">Rationale</th>
                                                                                 </tr>
                                                                         </thead>
@@ -1369,6 +2068,22 @@ Token budget: {artifactTokenSummary}
                                                                                                                                         )}
                                                                                                                                 </td>
                                                                                                         <td className="py-2 pr-4 font-semibold text-white">{vote.score}</td>
+                                                                                                        <td className="py-2 pr-4 text-xs text-white/70">
+                                                                                                                {Array.isArray(vote.criteria) && vote.criteria.length > 0 ? (
+                                                                                                                        <div className="space-y-0.5">
+                                                                                                                                {vote.criteria.map((c) => (
+                                                                                                                                        <div key={c.id} className="flex justify-between gap-3 whitespace-nowrap">
+                                                                                                                                                <span>
+                                                                                                                                                        {c.label} <span className="text-white/40">×{c.weight}</span>
+                                                                                                                                                </span>
+                                                                                                                                                <span className="text-white/90">{c.score}</span>
+                                                                                                                                        </div>
+                                                                                                                                ))}
+                                                                                                                        </div>
+                                                                                                                ) : (
+                                                                                                                        "—"
+                                                                                                                )}
+                                                                                                        </td>
                                                                                                         <td className="py-2 pr-4 text-white/70 whitespace-pre-wrap">{vote.rationale || "—"}</td>
                                                                                                 </tr>
                                                                                         );
@@ -1463,7 +2178,10 @@ Token budget: {artifactTokenSummary}
 											>
 												<div className="ui-text text-[11px] text-white/50 mb-1">{when}</div>
                                                                                                 <div className="ui-text text-sm text-white/80 truncate">{s.question}</div>
-                                                                                                <div className="ui-text text-[11px] mt-1 text-white/50">Status: {s.status}</div>
+                                                                                                <div className="ui-text text-[11px] mt-1 text-white/50">
+                                                                                                        Status: {s.status}
+                                                                                                        {typeof s.totalCostUsd === "number" && ` · ${formatCost(s.totalCostUsd)}`}
+                                                                                                </div>
                                                                                                 {s.live_url && (
                                                                                                         <div className="ui-text text-[11px] mt-1 text-magiBlue/80 truncate">
                                                                                                                 Live URL: {s.live_url}
@@ -1478,8 +2196,6 @@ Token budget: {artifactTokenSummary}
 					</div>
 				)}
 
-                                {/* Critiques panel removed */}
-
                                 {/* Voting Ledger moved inline into the Voting stage card */}
 
                                 <div className="relative">
@@ -1499,9 +2215,16 @@ Token budget: {artifactTokenSummary}
                                                 <div className="mt-4 bg-black/50 border border-white/10 rounded p-4">
                                                         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
                                                                 <div className="ui-text text-sm text-white/70">
-                                                                        Derived from
-                                                                        {" "}
-                                                                        {consensusSourceProposalId ? (
+                                                                        {consensusSynthesized ? "Synthesized" : "Derived"}
+                                                                        {consensusSynthesized && consensusSynthesizerId && agentById[consensusSynthesizerId]
+                                                                                ? ` by ${agentById[consensusSynthesizerId].name}`
+                                                                                : ""}
+                                                                        {" "}from{" "}
+                                                                        {consensusSynthesized && consensusSourceIds.length > 0 ? (
+                                                                                <span className="text-white">
+                                                                                        proposals {consensusSourceIds.map((id) => `#${id}`).join(", ")}
+                                                                                </span>
+                                                                        ) : consensusSourceProposalId ? (
                                                                                 <span className="text-white">
                                                                                         proposal #{consensusSourceProposalId}
                                                                                 </span>
@@ -1511,13 +2234,144 @@ Token budget: {artifactTokenSummary}
                                                                 </div>
                                                                 {typeof consensusScore === "number" && (
                                                                         <div className="ui-text text-xs text-white/60">
-                                                                                Total score: <span className="text-white/80">{consensusScore}</span>
+                                                                                {consensusScheme ? `Score (${consensusScheme})` : "Total score"}:{" "}
+                                                                                <span className="text-white/80">{consensusScore}</span>
+                                                                        </div>
+                                                                )}
+                                                                {consensusCalibration && (
+                                                                        <div className="ui-text text-xs text-white/50">
+                                                                                Raw → calibrated ({consensusCalibration.mode}):{" "}
+                                                                                {consensusCalibration.totals
+                                                                                        .map((t) => `#${t.proposalId} ${t.raw} → ${t.normalized}`)
+                                                                                        .join(", ")}
                                                                         </div>
                                                                 )}
+                                                                {consensusVoting && consensusVoting.explanation.length > 0 && (
+                                                                        <ul className="ui-text text-xs text-white/50 list-disc pl-4 space-y-0.5">
+                                                                                {consensusVoting.explanation.map((line, i) => (
+                                                                                        <li key={i}>{line}</li>
+                                                                                ))}
+                                                                        </ul>
+                                                                )}
                                                         </div>
+                                                        {consensusVerdict && (
+                                                                <div
+                                                                        className={clsx(
+                                                                                "mt-3 ui-text text-xs rounded px-3 py-2 border",
+                                                                                consensusVerdict.outcome === "approved" && "text-magiGreen border-magiGreen/40 bg-magiGreen/5",
+                                                                                consensusVerdict.outcome === "rejected" && "text-red-400 border-red-400/40 bg-red-400/5",
+                                                                                consensusVerdict.outcome === "deadlocked" && "text-magiOrange border-magiOrange/40 bg-magiOrange/5"
+                                                                        )}
+                                                                >
+                                                                        <span className="font-semibold">{consensusVerdict.outcome.toUpperCase()}</span> ·{" "}
+                                                                        &ldquo;{consensusVerdict.proposition}&rdquo; · {consensusVerdict.explanation}
+                                                                </div>
+                                                        )}
+                                                        {consensusAbsent.length > 0 && (
+                                                                <div className="mt-3 ui-text text-xs text-amber-300/90 border border-amber-300/30 bg-amber-300/5 rounded px-3 py-2">
+                                                                        Quorum result ·{" "}
+                                                                        {consensusAbsent.map((a) => `${a.name} missing (${a.reason})`).join("; ")}
+                                                                </div>
+                                                        )}
                                                         <div className="ui-text text-sm text-white/90 whitespace-pre-wrap mt-3">
                                                                 {consensusMessage.content}
                                                         </div>
+                                                        {consensusFindings && consensusFindings.clusters.length > 0 && (
+                                                                <div className="mt-4 border-t border-white/10 pt-3">
+                                                                        <div className="ui-text text-[11px] uppercase tracking-widest text-white/40">Agreement</div>
+                                                                        <ul className="mt-2 space-y-1">
+                                                                                {consensusFindings.clusters.map((cluster) => (
+                                                                                        <li key={cluster.rank} className="ui-text text-xs text-white/60 flex flex-wrap items-center gap-2">
+                                                                                                <span className="text-white/90 font-semibold">
+                                                                                                        {cluster.agreement}/{cluster.rosterSize}
+                                                                                                </span>
+                                                                                                <span className="uppercase text-white/50">{cluster.severity}</span>
+                                                                                                <span className="text-white/80">{cluster.title}</span>
+                                                                                                {cluster.file_path && (
+                                                                                                        <span className="text-white/40">
+                                                                                                                {cluster.file_path}
+                                                                                                                {cluster.line_start !== null ? `:${cluster.line_start}` : ""}
+                                                                                                        </span>
+                                                                                                )}
+                                                                                                {cluster.agentIds.map((id) => (
+                                                                                                        <span key={id} className="px-1.5 py-0.5 rounded border border-white/15 bg-white/5">
+                                                                                                                {agentById[id]?.name ?? id}
+                                                                                                        </span>
+                                                                                                ))}
+                                                                                        </li>
+                                                                                ))}
+                                                                        </ul>
+                                                                        {consensusFindings.matrix.agentIds.length > 1 && (
+                                                                                <table className="mt-3 ui-text text-[11px] text-white/60">
+                                                                                        <thead>
+                                                                                                <tr>
+                                                                                                        <th />
+                                                                                                        {consensusFindings.matrix.agentIds.map((id) => (
+                                                                                                                <th key={id} className="px-2 font-normal text-white/50">
+                                                                                                                        {agentById[id]?.name ?? id}
+                                                                                                                </th>
+                                                                                                        ))}
+                                                                                                </tr>
+                                                                                        </thead>
+                                                                                        <tbody>
+                                                                                                {consensusFindings.matrix.agentIds.map((rowId, i) => (
+                                                                                                        <tr key={rowId}>
+                                                                                                                <td className="pr-2 text-white/50">{agentById[rowId]?.name ?? rowId}</td>
+                                                                                                                {consensusFindings.matrix.shared[i].map((count, j) => (
+                                                                                                                        <td key={j} className={clsx("px-2 text-center", i === j ? "text-white/40" : "text-white/90")}>
+                                                                                                                                {count}
+                                                                                                                        </td>
+                                                                                                                ))}
+                                                                                                        </tr>
+                                                                                                ))}
+                                                                                        </tbody>
+                                                                                </table>
+                                                                        )}
+                                                                </div>
+                                                        )}
+                                                        {consensusDissent.length > 0 && (
+                                                                <div className="mt-4 border-t border-white/10 pt-3">
+                                                                        <div className="ui-text text-[11px] uppercase tracking-widest text-amber-300/70">Minority report</div>
+                                                                        <ul className="mt-2 space-y-1">
+                                                                                {consensusDissent.map((point, i) => (
+                                                                                        <li key={i} className="ui-text text-xs text-white/60">
+                                                                                                <span className="text-white/80">
+                                                                                                        {point.kind === "solo" ? `[${point.severity?.toUpperCase()}] ` : "Split vote: "}
+                                                                                                        {point.title}
+                                                                                                </span>{" "}
+                                                                                                · {point.agentId ? agentById[point.agentId]?.name ?? point.agentId : "unknown"} (#{point.messageId})
+                                                                                                {" · "}
+                                                                                                {point.spread
+                                                                                                        ? `votes ${point.spread.min}–${point.spread.max}: ${point.spread.scores
+                                                                                                                  .map((s) => `${agentById[s.agentId]?.name ?? s.agentId} ${s.score}`)
+                                                                                                                  .join(", ")}`
+                                                                                                        : "no votes"}
+                                                                                        </li>
+                                                                                ))}
+                                                                        </ul>
+                                                                </div>
+                                                        )}
+                                                        {consensusPoints.length > 0 && (
+                                                                <div className="mt-4 border-t border-white/10 pt-3">
+                                                                        <div className="ui-text text-[11px] uppercase tracking-widest text-white/40">Provenance</div>
+                                                                        <ul className="mt-2 space-y-1">
+                                                                                {consensusPoints.map((point) => (
+                                                                                        <li key={point.index} className="ui-text text-xs text-white/60">
+                                                                                                Point {point.index} ←{" "}
+                                                                                                {point.sourceMessageIds.length > 0
+                                                                                                        ? point.sourceMessageIds
+                                                                                                                  .map((id) => {
+                                                                                                                          const source = messageById[id];
+                                                                                                                          const author = source?.agent_id ? agentById[source.agent_id] : undefined;
+                                                                                                                          return author ? `#${id} (${author.name})` : `#${id}`;
+                                                                                                                  })
+                                                                                                                  .join(", ")
+                                                                                                        : "uncited"}
+                                                                                        </li>
+                                                                                ))}
+                                                                        </ul>
+                                                                </div>
+                                                        )}
                                                 </div>
                                         ) : (
                                                 <div className="ui-text text-sm text-white/50 mt-4">
@@ -4,23 +4,53 @@ import KeyInput from "./KeyInput";
 import StatusLamp from "./StatusLamp";
 import clsx from "classnames";
 import { useMemo } from "react";
+import type { MagiAgent, MagiProviderId, MagiVerdictChoice } from "@/lib/magiTypes";
 
-type Provider = "openai" | "anthropic" | "grok";
+type Provider = MagiProviderId;
+
+export function endpointStorageKey(agentSlug: string): string {
+	return `magi_endpoint_${agentSlug}_api_key`;
+}
+
+export function endpointVerifiedKey(agentSlug: string): string {
+	return `magi_endpoint_${agentSlug}_verified`;
+}
+
+/** Where the link flag for an agent's key lives; agents sharing a provider share it. */
+export function agentVerifiedKey(agent: Pick<MagiAgent, "slug" | "provider" | "base_url">): string {
+	return agent.base_url ? endpointVerifiedKey(agent.slug) : `magi_provider_${agent.provider}_verified`;
+}
 type Glow = "blue" | "orange" | "green";
 
 export default function MagiPanel({
 	agentName,
 	provider,
+	model,
 	glow,
 	accent,
+	liveOutput,
+	endpoint,
+	verdict,
 }: {
 	agentName: string;
 	provider: Provider;
+	model?: string | null;
 	glow: Glow;
 	accent: "magiBlue" | "magiOrange" | "magiGreen";
+	liveOutput?: { step: string; text: string; status: "started" | "complete" | "failed" } | null;
+	/** Set when the agent talks to its own base_url; its key is stored per agent. */
+	endpoint?: { agentId: string; agentSlug: string; host: string } | null;
+	/** The core's ballot when the session ran in verdict mode. */
+	verdict?: MagiVerdictChoice | null;
 }) {
-	const storageKey = useMemo(() => `magi_provider_${provider}_api_key`, [provider]);
-	const verifiedKey = useMemo(() => `magi_provider_${provider}_verified`, [provider]);
+	const storageKey = useMemo(
+		() => (endpoint ? endpointStorageKey(endpoint.agentSlug) : `magi_provider_${provider}_api_key`),
+		[endpoint, provider]
+	);
+	const verifiedKey = useMemo(
+		() => (endpoint ? endpointVerifiedKey(endpoint.agentSlug) : `magi_provider_${provider}_verified`),
+		[endpoint, provider]
+	);
 	const shadowClass = useMemo(() => {
 		switch (glow) {
 			case "blue":
@@ -44,14 +74,50 @@ export default function MagiPanel({
 			<header className="flex items-center justify-between mb-4">
 				<div>
 					<h3 className={clsx("title-text text-xl font-bold", `text-${accent}`)}>{agentName}</h3>
-					<p className="ui-text text-white/70 text-xs uppercase tracking-widest mt-1">{provider}</p>
+					<p className="ui-text text-white/70 text-xs uppercase tracking-widest mt-1">
+						{provider}
+						{model && <span className="normal-case tracking-normal text-white/50"> · {model}</span>}
+						{endpoint && <span className="normal-case tracking-normal text-white/50"> · {endpoint.host}</span>}
+					</p>
+				</div>
+				<div className="flex items-center gap-3">
+					{verdict && (
+						<span
+							className={clsx(
+								"title-text text-xs font-bold tracking-widest px-2 py-0.5 rounded border",
+								verdict === "approve" && "text-magiGreen border-magiGreen/60",
+								verdict === "reject" && "text-red-400 border-red-400/60",
+								verdict === "abstain" && "text-white/50 border-white/30"
+							)}
+						>
+							{verdict.toUpperCase()}
+						</span>
+					)}
+					<StatusLamp storageKey={verifiedKey} accent={accent} />
 				</div>
-				<StatusLamp storageKey={verifiedKey} accent={accent} />
 			</header>
 
 			<div className="divider mb-4" />
 
-			<KeyInput storageKey={storageKey} provider={provider} verifiedKey={verifiedKey} label="API Key" accent={accent} />
+			<KeyInput
+				storageKey={storageKey}
+				provider={provider}
+				verifiedKey={verifiedKey}
+				label={endpoint ? "Endpoint Key" : "API Key"}
+				accent={accent}
+				agentId={endpoint?.agentId}
+			/>
+
+			{liveOutput && (
+				<div className="mt-3 bg-black/60 border border-white/10 rounded p-2">
+					<div className="ui-text text-[10px] uppercase tracking-widest text-white/50">
+						{liveOutput.step} · {liveOutput.status === "started" ? "streaming" : liveOutput.status}
+					</div>
+					<div className="ui-text text-xs text-white/75 whitespace-pre-wrap mt-1 max-h-24 overflow-hidden">
+						{liveOutput.text || "…"}
+					</div>
+				</div>
+			)}
 		</section>
 	);
 }
@@ -1,49 +1,130 @@
 "use client";
 
-import MagiPanel from "@/components/MagiPanel";
-import { useEffect, useMemo, useState } from "react";
+import MagiPanel, { agentVerifiedKey } from "@/components/MagiPanel";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { safeLoad } from "@/lib/localStore";
+import { MIN_ROSTER_SIZE, parseStoredRoster, ROSTER_STORAGE_KEY } from "@/lib/magiRoster";
+import type { MagiAgent, MagiStreamEvent, MagiVerdictResult } from "@/lib/magiTypes";
 import clsx from "classnames";
 
 type Accent = "magiBlue" | "magiOrange" | "magiGreen";
 
+type NodeEndpoint = { agentId: string; agentSlug: string; host: string };
+
+type NodeStream = { streamId: string; step: string; text: string; status: "started" | "complete" | "failed" };
+
+// An agent can run several calls at once (one critique per peer); a node
+// follows the oldest call still streaming, then holds the last one to finish.
+function pickNodeStream(streams: NodeStream[]): NodeStream | null {
+	return streams.find((s) => s.status === "started") ?? streams[streams.length - 1] ?? null;
+}
+
+const ACCENTS: { accent: Accent; glow: "blue" | "orange" | "green" }[] = [
+	{ accent: "magiBlue", glow: "blue" },
+	{ accent: "magiOrange", glow: "orange" },
+	{ accent: "magiGreen", glow: "green" },
+];
+
+/**
+ * Spread `count` nodes around an ellipse, the first at the top. Three nodes
+ * give the classic triangle; two sit side by side.
+ */
+function nodePositions(count: number): { xPct: number; yPct: number }[] {
+	const start = count === 2 ? -Math.PI / 2 : 0;
+	return Array.from({ length: count }, (_, i) => {
+		const angle = start + (2 * Math.PI * i) / Math.max(1, count);
+		return { xPct: 50 + 32 * Math.sin(angle), yPct: 46 - 34 * Math.cos(angle) };
+	});
+}
+
 export default function MagiTriad() {
-	const nodes = useMemo(
-		() => [
-			{
-				id: "casper",
-				title: "CASPER",
-				provider: "openai" as const,
-				accent: "magiBlue" as Accent,
-				glow: "blue" as const,
-				verifiedKey: "magi_provider_openai_verified",
-				pos: { xPct: 50, yPct: 12 },
-			},
-			{
-				id: "balthasar",
-				title: "BALTHASAR",
-				provider: "anthropic" as const,
-				accent: "magiOrange" as Accent,
-				glow: "orange" as const,
-				verifiedKey: "magi_provider_anthropic_verified",
-				pos: { xPct: 20, yPct: 75 },
-			},
-			{
-				id: "melchior",
-				title: "MELCHIOR",
-				provider: "grok" as const,
-				accent: "magiGreen" as Accent,
-				glow: "green" as const,
-				verifiedKey: "magi_provider_grok_verified",
-				pos: { xPct: 80, yPct: 75 },
-			},
-		],
-		[]
+	const [agents, setAgents] = useState<MagiAgent[]>([]);
+	const [rosterIds, setRosterIds] = useState<string[] | null>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		fetch("/api/magi/agents", { cache: "no-store" })
+			.then((res) => res.json())
+			.then((data) => {
+				if (!cancelled && data?.ok && Array.isArray(data.agents)) setAgents(data.agents as MagiAgent[]);
+			})
+			.catch(() => {});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const nodes = useMemo(() => {
+		const positions = nodePositions(agents.length);
+		return agents.map((agent, i) => {
+			let endpoint: NodeEndpoint | null = null;
+			if (agent.base_url) {
+				let host = agent.base_url;
+				try {
+					host = new URL(agent.base_url).host;
+				} catch {
+					// show the raw value
+				}
+				endpoint = { agentId: agent.id, agentSlug: agent.slug, host };
+			}
+			return {
+				id: agent.slug,
+				agentId: agent.id,
+				title: agent.name.toUpperCase(),
+				provider: agent.provider,
+				model: agent.model,
+				...ACCENTS[i % ACCENTS.length],
+				verifiedKey: agentVerifiedKey(agent),
+				endpoint,
+				pos: positions[i],
+			};
+		});
+	}, [agents]);
+
+	// Nodes outside the operator's roster stay visible for key entry but dimmed.
+	const inRoster = useCallback(
+		(agentId: string) => !rosterIds || rosterIds.includes(agentId),
+		[rosterIds]
 	);
+	const rosterNodes = useMemo(() => nodes.filter((n) => inRoster(n.agentId)), [nodes, inRoster]);
+	const links = useMemo(() => {
+		const pairs: [string, string][] = [];
+		rosterNodes.forEach((a, i) => rosterNodes.slice(i + 1).forEach((b) => pairs.push([a.id, b.id])));
+		return pairs;
+	}, [rosterNodes]);
 
 	const [active, setActive] = useState<Record<string, boolean>>({});
+	const [streams, setStreams] = useState<Record<string, NodeStream[]>>({});
 	const [bootStage, setBootStage] = useState(0); // 0=hidden,1=label,2=title,3=steady
 
+	useEffect(() => {
+		const handler = (event: Event) => {
+			const detail = (event as CustomEvent<MagiStreamEvent>).detail;
+			if (!detail || detail.type === "stage") return;
+			setStreams((prev) => {
+				const list = (prev[detail.agentSlug] ?? []).filter((s) => s.status === "started" || s.streamId === detail.streamId);
+				const index = list.findIndex((s) => s.streamId === detail.streamId);
+				const current: NodeStream =
+					index >= 0 ? list[index] : { streamId: detail.streamId, step: detail.step, text: "", status: "started" };
+				let updated = current;
+				if (detail.type === "agent") updated = { ...current, status: detail.status };
+				if (detail.type === "delta") updated = { ...current, text: (current.text + detail.text).slice(-400) };
+				const next = index >= 0 ? list.map((s, i) => (i === index ? updated : s)) : [...list, updated];
+				return { ...prev, [detail.agentSlug]: next };
+			});
+		};
+		window.addEventListener("magi-agent-stream", handler as EventListener);
+		return () => window.removeEventListener("magi-agent-stream", handler as EventListener);
+	}, []);
+
+	// Ballots from a verdict-mode session, sent by MagiConsensusControl.
+	const [verdict, setVerdict] = useState<MagiVerdictResult | null>(null);
+	useEffect(() => {
+		const handler = (event: Event) => setVerdict((event as CustomEvent<MagiVerdictResult | null>).detail ?? null);
+		window.addEventListener("magi-verdict", handler as EventListener);
+		return () => window.removeEventListener("magi-verdict", handler as EventListener);
+	}, []);
+
 	useEffect(() => {
 		function refresh() {
 			const map: Record<string, boolean> = {};
@@ -51,13 +132,15 @@ export default function MagiTriad() {
 				map[n.id] = Boolean(safeLoad(n.verifiedKey));
 			}
 			setActive(map);
+			const stored = parseStoredRoster(safeLoad(ROSTER_STORAGE_KEY));
+			setRosterIds((prev) => (JSON.stringify(prev) === JSON.stringify(stored) ? prev : stored));
 		}
 		refresh();
 		const i = setInterval(refresh, 800);
 		return () => clearInterval(i);
 	}, [nodes]);
 
-	const allOn = Object.values(active).filter(Boolean).length === 3;
+	const allOn = rosterNodes.length >= MIN_ROSTER_SIZE && rosterNodes.every((n) => active[n.id]);
 
 	useEffect(() => {
 		if (allOn) {
@@ -74,7 +157,12 @@ export default function MagiTriad() {
 	}, [allOn]);
 
 	return (
-		<section className="relative w-full h-[600px] md:h-[680px] magi-triad">
+		<section
+			className={clsx(
+				"relative w-full magi-triad",
+				nodes.length > 3 ? "h-[760px] md:h-[860px]" : "h-[600px] md:h-[680px]"
+			)}
+		>
 			{/* Optional background image if present in /public */}
 			<div
 				aria-hidden
@@ -84,11 +172,7 @@ export default function MagiTriad() {
 
 			{/* Connectors (base lines under panels) */}
 			<svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
-				{[
-					["casper", "balthasar"],
-					["casper", "melchior"],
-					["balthasar", "melchior"],
-				].map(([a, b]) => {
+				{links.map(([a, b]) => {
 					const A = nodes.find((n) => n.id === a)!;
 					const B = nodes.find((n) => n.id === b)!;
 					const bothActive = Boolean(active[a]) && Boolean(active[b]);
@@ -117,20 +201,30 @@ export default function MagiTriad() {
 			{nodes.map((n) => (
 				<div
 					key={n.id}
-					className="absolute -translate-x-1/2 -translate-y-1/2"
-					style={{ left: `${n.pos.xPct}%`, top: `${n.pos.yPct}%`, width: "min(420px, 90vw)" }}
+					className={clsx("absolute -translate-x-1/2 -translate-y-1/2 transition-opacity", {
+						"opacity-40": !inRoster(n.agentId),
+					})}
+					style={{
+						left: `${n.pos.xPct}%`,
+						top: `${n.pos.yPct}%`,
+						width: nodes.length > 3 ? "min(320px, 90vw)" : "min(420px, 90vw)",
+					}}
 				>
 					<MagiPanel
 						agentName={n.title}
 						provider={n.provider}
+						model={n.model}
 						glow={n.glow}
 						accent={n.accent}
+						liveOutput={pickNodeStream(streams[n.id] ?? [])}
+						endpoint={n.endpoint}
+						verdict={verdict?.ballots.find((b) => b.agentId === n.agentId)?.choice ?? null}
 					/>
 				</div>
 			))}
 
 			{/* Animated dash overlay above panels to avoid clipping */}
-			{Object.values(active).filter(Boolean).length === 3 && (
+			{allOn && (
 				<svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
 					<defs>
 						<linearGradient id="triadGlow" x1="0" y1="0" x2="100" y2="100" gradientUnits="userSpaceOnUse">
@@ -139,11 +233,7 @@ export default function MagiTriad() {
 							<stop offset="100%" stopColor="#00FF7F" />
 						</linearGradient>
 					</defs>
-					{[
-						["casper", "balthasar"],
-						["casper", "melchior"],
-						["balthasar", "melchior"],
-					].map(([a, b]) => {
+					{links.map(([a, b]) => {
 						const A = nodes.find((n) => n.id === a)!;
 						const B = nodes.find((n) => n.id === b)!;
 						return (
@@ -182,6 +272,18 @@ export default function MagiTriad() {
 					{bootStage >= 3 && (
 						<div className="mt-3 w-[280px] md:w-[360px] h-[2px] mx-auto bg-white/15 boot-scan rounded-full" />
 					)}
+					{bootStage >= 3 && verdict && (
+						<div
+							className={clsx(
+								"title-text mt-3 text-xl md:text-2xl font-bold tracking-[0.3em]",
+								verdict.outcome === "approved" && "text-magiGreen",
+								verdict.outcome === "rejected" && "text-red-400",
+								verdict.outcome === "deadlocked" && "text-magiOrange"
+							)}
+						>
+							{verdict.outcome.toUpperCase()}
+						</div>
+					)}
 				</div>
 			)}
 		</section>
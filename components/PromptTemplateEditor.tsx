@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import clsx from "classnames";
+import { supabaseBrowser } from "@/lib/supabaseClient";
+import type { MagiAgent, MagiPromptStage, MagiPromptTemplate } from "@/lib/magiTypes";
+
+type EditorData = {
+	templates: MagiPromptTemplate[];
+	defaults: Record<MagiPromptStage, string>;
+	stages: MagiPromptStage[];
+	variables: { name: string; description: string }[];
+	agents: MagiAgent[];
+};
+
+const DEFAULT_SCOPE = "default";
+
+async function getUserId(): Promise<string> {
+	if (!supabaseBrowser) throw new Error("Auth not initialized");
+	const { data } = await supabaseBrowser.auth.getSession();
+	const userId = data.session?.user?.id;
+	if (!userId) throw new Error("Not signed in");
+	return userId;
+}
+
+export default function PromptTemplateEditor() {
+	const [data, setData] = useState<EditorData | null>(null);
+	const [scope, setScope] = useState<string>(DEFAULT_SCOPE);
+	const [stage, setStage] = useState<MagiPromptStage>("proposal");
+	const [draft, setDraft] = useState("");
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [notice, setNotice] = useState<string | null>(null);
+
+	const load = useCallback(async () => {
+		try {
+			const userId = await getUserId();
+			const res = await fetch(`/api/magi/prompts?userId=${encodeURIComponent(userId)}`, { cache: "no-store" });
+			const json = await res.json();
+			if (!json?.ok) throw new Error(json?.error || "Failed to load templates");
+			setData(json as EditorData);
+		} catch (e: any) {
+			setError(e?.message || "Failed to load templates");
+		}
+	}, []);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const agentId = scope === DEFAULT_SCOPE ? null : scope;
+
+	// Versions for the selected agent and stage, newest first.
+	const history = useMemo(
+		() =>
+			(data?.templates ?? [])
+				.filter((t) => t.stage === stage && t.agent_id === agentId)
+				.sort((a, b) => b.version - a.version),
+		[data, stage, agentId]
+	);
+
+	// What the selected agent runs today: its own template, the default row or the built-in prompt.
+	const effective = useMemo(() => {
+		if (!data) return null;
+		if (history[0]) return { body: history[0].body, label: `v${history[0].version}` };
+		if (agentId) {
+			const shared = data.templates
+				.filter((t) => t.stage === stage && t.agent_id === null)
+				.sort((a, b) => b.version - a.version)[0];
+			if (shared) return { body: shared.body, label: `default v${shared.version}` };
+		}
+		return { body: data.defaults[stage], label: "built-in" };
+	}, [data, history, agentId, stage]);
+
+	useEffect(() => {
+		setDraft(effective?.body ?? "");
+		setNotice(null);
+		setError(null);
+	}, [effective]);
+
+	async function save() {
+		setSaving(true);
+		setError(null);
+		setNotice(null);
+		try {
+			const userId = await getUserId();
+			const res = await fetch("/api/magi/prompts", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ userId, agentId, stage, body: draft }),
+			});
+			const json = await res.json();
+			if (!json?.ok) throw new Error(json?.error || "Failed to save template");
+			const saved = json.template as MagiPromptTemplate;
+			setData((prev) => (prev ? { ...prev, templates: [saved, ...prev.templates] } : prev));
+			setNotice(`Saved as version ${saved.version}`);
+		} catch (e: any) {
+			setError(e?.message || "Failed to save template");
+		} finally {
+			setSaving(false);
+		}
+	}
+
+	if (!data) {
+		return <div className="ui-text text-sm text-white/60">{error ?? "Loading templates…"}</div>;
+	}
+
+	return (
+		<section className="magi-panel p-5 border-white/15 space-y-4">
+			<header className="flex flex-wrap items-center gap-3">
+				<h2 className="title-text text-xl font-bold text-magiBlue">Prompt templates</h2>
+				<select
+					value={scope}
+					onChange={(e) => setScope(e.target.value)}
+					className="ui-text text-sm rounded-md bg-white/10 border border-white/20 px-2 py-1 outline-none focus:ring-2 focus:ring-magiBlue/40"
+				>
+					<option value={DEFAULT_SCOPE}>All agents (default)</option>
+					{data.agents.map((a) => (
+						<option key={a.id} value={a.id}>
+							{a.name}
+						</option>
+					))}
+				</select>
+				<div className="flex gap-1">
+					{data.stages.map((s) => (
+						<button
+							key={s}
+							onClick={() => setStage(s)}
+							className={clsx(
+								"ui-text px-3 py-1 text-sm rounded-md border transition",
+								s === stage ? "border-magiBlue/60 bg-white/15" : "border-white/20 bg-white/5 hover:bg-white/10"
+							)}
+						>
+							{s}
+						</button>
+					))}
+				</div>
+			</header>
+
+			<div className="ui-text text-xs text-white/50">Currently live: {effective?.label}</div>
+
+			<textarea
+				value={draft}
+				onChange={(e) => setDraft(e.target.value)}
+				rows={14}
+				className="w-full rounded-md bg-white/5 border border-white/20 px-3 py-2 font-mono text-xs text-white/90 outline-none focus:ring-2 focus:ring-magiBlue/40"
+			/>
+
+			<div className="flex items-center gap-3">
+				<button
+					onClick={save}
+					disabled={saving || !draft.trim() || draft === effective?.body}
+					className="ui-text px-4 py-1.5 rounded-md border border-magiBlue/50 bg-white/10 hover:bg-white/15 text-sm disabled:opacity-60"
+				>
+					{saving ? "Saving…" : "Save new version"}
+				</button>
+				{notice && <span className="ui-text text-xs text-magiGreen">{notice}</span>}
+				{error && <span className="ui-text text-xs text-red-400">{error}</span>}
+			</div>
+
+			<div className="ui-text text-xs text-white/60 space-y-1">
+				<div className="text-white/80">Variables</div>
+				{data.variables.map((v) => (
+					<div key={v.name}>
+						<code className="text-white/80">{`{{${v.name}}}`}</code> {v.description}
+					</div>
+				))}
+				<div>
+					<code className="text-white/80">{"{{#name}}…{{/name}}"}</code> renders only when the variable is set;{" "}
+					<code className="text-white/80">{"{{^name}}…{{/name}}"}</code> only when it is empty.
+				</div>
+			</div>
+
+			{history.length > 0 && (
+				<div className="ui-text text-xs text-white/60 space-y-1">
+					<div className="text-white/80">History</div>
+					{history.map((t) => (
+						<div key={t.id} className="flex items-center gap-3">
+							<span>v{t.version}</span>
+							<span className="text-white/40">{new Date(t.created_at).toLocaleString()}</span>
+							<button onClick={() => setDraft(t.body)} className="underline hover:text-white/80">
+								Load
+							</button>
+						</div>
+					))}
+				</div>
+			)}
+		</section>
+	);
+}
@@ -49,6 +49,13 @@ export default function TopBar() {
                                         >
                                                 History
                                         </button>
+                                        <a
+                                                href="/admin/prompts"
+                                                className="ui-text px-3 py-1 text-sm rounded-md border border-white/20 bg-white/10 hover:bg-white/15 transition"
+                                                title="Edit agent prompt templates"
+                                        >
+                                                Prompts
+                                        </a>
                                         <button
                                                 onClick={handleLogout}
                                                 className="ui-text px-3 py-1 text-sm rounded-md border border-white/20 bg-white/10 hover:bg-white/15 transition"
@@ -11,6 +11,8 @@ export interface LiveHttpRequestOptions {
         method?: string;
         headers?: Record<string, string>;
         body?: string;
+        /** Aborts the request early, e.g. when the operator cancels the run. */
+        signal?: AbortSignal;
 }
 
 export interface LiveHttpResponsePayload {
@@ -113,8 +115,11 @@ export async function performLiveHttpRequest(options: LiveHttpRequestOptions): P
         }
 
         const headers = sanitizeHeaders(options.headers);
+        options.signal?.throwIfAborted();
         const controller = new AbortController();
         const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+        const abortFromCaller = () => controller.abort(options.signal?.reason);
+        options.signal?.addEventListener("abort", abortFromCaller, { once: true });
         try {
                 const res = await fetch(parsed, {
                         method,
@@ -140,5 +145,6 @@ export async function performLiveHttpRequest(options: LiveHttpRequestOptions): P
                 };
         } finally {
                 clearTimeout(timeout);
+                options.signal?.removeEventListener("abort", abortFromCaller);
         }
 }
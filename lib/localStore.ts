@@ -26,3 +26,20 @@ export function safeRemove(key: string): void {
 }
 
 
+
+/** Every stored value whose key matches `pattern`, keyed by its first capture group. */
+export function safeLoadMatching(pattern: RegExp): Record<string, string> {
+	const found: Record<string, string> = {};
+	try {
+		if (typeof window === "undefined") return found;
+		for (let i = 0; i < window.localStorage.length; i++) {
+			const key = window.localStorage.key(i);
+			const match = key ? pattern.exec(key) : null;
+			const value = key ? window.localStorage.getItem(key) : null;
+			if (match?.[1] && value) found[match[1]] = value;
+		}
+	} catch {
+		// ignore
+	}
+	return found;
+}
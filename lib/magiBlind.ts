@@ -0,0 +1,106 @@
+import type { MagiAgent, MagiMessage } from "@/lib/magiTypes";
+
+/** Vendor and model family names a proposal might sign with or mention. */
+const BRAND_WORDS = ["openai", "chatgpt", "gpt", "anthropic", "claude", "google", "gemini", "xai", "grok", "mistral", "llama"];
+const ALIAS_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const REDACTED = "[redacted]";
+
+/** Small seeded PRNG (mulberry32) so a seed always yields the same shuffle and aliases. */
+function seededRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return () => {
+                state = (state + 0x6d2b79f5) >>> 0;
+                let t = state;
+                t = Math.imul(t ^ (t >>> 15), t | 1);
+                t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+                return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+}
+
+function hashString(value: string): number {
+        let hash = 2166136261;
+        for (let i = 0; i < value.length; i++) {
+                hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+        }
+        return hash >>> 0;
+}
+
+export function randomBlindSeed(): number {
+        return Math.floor(Math.random() * 2 ** 31);
+}
+
+/** A usable seed from settings, or null to draw a fresh one. */
+export function normalizeBlindSeed(raw: unknown): number | null {
+        const parsed = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw) : NaN;
+        return Number.isInteger(parsed) && parsed >= 0 ? parsed % 2 ** 31 : null;
+}
+
+function escapeRegExp(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export type BlindBallot = {
+        seed: number;
+        /** Alias per proposal message id. */
+        aliases: Record<string, string>;
+        /** The proposals in the order `voterId` should see them. */
+        order(voterId: string, proposals: MagiMessage[]): MagiMessage[];
+        /** Text with agent names, models, vendors and sign-offs removed. */
+        anonymize(text: string): string;
+        /** Put proposal ids back where a voter wrote an alias. */
+        restore(text: string): string;
+};
+
+/**
+ * Aliases and per-voter orderings for one round's blind vote. Everything is
+ * derived from `seed` and the round, so recording the seed is enough to
+ * reproduce what each voter was shown.
+ */
+export function createBlindBallot(seed: number, round: number, proposals: MagiMessage[], agents: MagiAgent[]): BlindBallot {
+        const random = seededRandom(hashString(`${seed}:${round}`));
+        const aliases: Record<string, string> = {};
+        const used = new Set<string>();
+        for (const p of proposals) {
+                let alias = "";
+                while (!alias || used.has(alias)) {
+                        alias = Array.from({ length: 3 }, () => ALIAS_ALPHABET[Math.floor(random() * ALIAS_ALPHABET.length)]).join("");
+                }
+                used.add(alias);
+                aliases[String(p.id)] = `Proposal ${alias}`;
+        }
+
+        const identities = Array.from(
+                new Set(
+                        [...agents.flatMap((a) => [a.name, a.slug, a.model]), ...BRAND_WORDS]
+                                .filter((word): word is string => typeof word === "string" && word.trim().length > 1)
+                                .map((word) => word.trim())
+                )
+        ).sort((a, b) => b.length - a.length);
+        const identityPattern = new RegExp(`\\b(?:${identities.map(escapeRegExp).join("|")})\\b`, "gi");
+        // Trailing sign-offs such as "— CASPER" or "Signed, MELCHIOR-1".
+        const signaturePattern = /\n+\s*(?:[-—–]+\s*|(?:signed|regards|cheers)[,:]?\s+)[^\n]{1,60}\s*$/i;
+
+        return {
+                seed,
+                aliases,
+                order(voterId, list) {
+                        const shuffle = seededRandom(hashString(`${seed}:${round}:${voterId}`));
+                        const copy = list.slice();
+                        for (let i = copy.length - 1; i > 0; i--) {
+                                const j = Math.floor(shuffle() * (i + 1));
+                                [copy[i], copy[j]] = [copy[j], copy[i]];
+                        }
+                        return copy;
+                },
+                anonymize(text) {
+                        return text.replace(signaturePattern, "").replace(identityPattern, REDACTED);
+                },
+                restore(text) {
+                        let restored = text;
+                        for (const [id, alias] of Object.entries(aliases)) {
+                                restored = restored.replace(new RegExp(escapeRegExp(alias), "g"), `proposal #${id}`);
+                        }
+                        return restored;
+                },
+        };
+}
@@ -0,0 +1,198 @@
+import { getUserBudget, sumUserUsage } from "@/lib/magiRepo";
+import { sumUsageRows, usageCost } from "@/lib/magiUsage";
+import type {
+        MagiAgent,
+        MagiBudgetLimit,
+        MagiBudgetScope,
+        MagiMessage,
+        MagiSession,
+        MagiSessionSettings,
+        MagiVote,
+} from "@/lib/magiTypes";
+
+export type BudgetSpend = { tokens: number; costUsd: number };
+
+export interface BudgetWindow {
+        scope: MagiBudgetScope;
+        limit: MagiBudgetLimit;
+        spent: BudgetSpend;
+}
+
+const SCOPE_LABELS: Record<MagiBudgetScope, string> = {
+        session: "Session",
+        user: "Account",
+        daily: "Daily",
+};
+
+/** Raised before a provider call once any budget window is used up. */
+export class BudgetExceededError extends Error {
+        constructor(
+                message: string,
+                readonly scope: MagiBudgetScope
+        ) {
+                super(message);
+                this.name = "BudgetExceededError";
+        }
+}
+
+function positiveOrNull(value: unknown): number | null {
+        const parsed = typeof value === "string" ? Number(value) : value;
+        return typeof parsed === "number" && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function normalizeBudgetLimit(raw: unknown): MagiBudgetLimit | null {
+        if (!raw || typeof raw !== "object") return null;
+        const candidate = raw as Record<string, unknown>;
+        const maxTokens = positiveOrNull(candidate.maxTokens);
+        const maxCostUsd = positiveOrNull(candidate.maxCostUsd);
+        if (maxTokens === null && maxCostUsd === null) return null;
+        return { maxTokens: maxTokens === null ? null : Math.round(maxTokens), maxCostUsd };
+}
+
+export function startOfUtcDay(now = new Date()): string {
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+}
+
+function describeWindow(window: BudgetWindow, which: "tokens" | "cost"): string {
+        const label = SCOPE_LABELS[window.scope];
+        if (which === "tokens") {
+                return `${label} token budget exhausted: ${window.spent.tokens.toLocaleString()} of ${Number(window.limit.maxTokens).toLocaleString()} tokens used`;
+        }
+        return `${label} spend budget exhausted: $${window.spent.costUsd.toFixed(4)} of $${Number(window.limit.maxCostUsd).toFixed(2)} used`;
+}
+
+/** The first window whose tokens or cost reached its cap, described for the operator. */
+export function budgetViolation(windows: BudgetWindow[]): { scope: MagiBudgetScope; message: string } | null {
+        for (const window of windows) {
+                const maxTokens = positiveOrNull(window.limit.maxTokens);
+                if (maxTokens !== null && window.spent.tokens >= maxTokens) {
+                        return { scope: window.scope, message: describeWindow(window, "tokens") };
+                }
+                const maxCostUsd = positiveOrNull(window.limit.maxCostUsd);
+                if (maxCostUsd !== null && window.spent.costUsd >= maxCostUsd) {
+                        return { scope: window.scope, message: describeWindow(window, "cost") };
+                }
+        }
+        return null;
+}
+
+/** The account-wide and daily windows from the user's `magi_user_budgets` row. */
+export async function loadUserBudgetWindows(userId: string): Promise<BudgetWindow[]> {
+        const userBudget = await getUserBudget(userId);
+        const userLimit = normalizeBudgetLimit({ maxTokens: userBudget?.max_tokens, maxCostUsd: userBudget?.max_cost_usd });
+        const dailyLimit = normalizeBudgetLimit({
+                maxTokens: userBudget?.daily_max_tokens,
+                maxCostUsd: userBudget?.daily_max_cost_usd,
+        });
+        const [userSpent, dailySpent] = await Promise.all([
+                userLimit ? sumUserUsage(userId) : null,
+                dailyLimit ? sumUserUsage(userId, startOfUtcDay()) : null,
+        ]);
+        const windows: BudgetWindow[] = [];
+        if (userLimit && userSpent) windows.push({ scope: "user", limit: userLimit, spent: userSpent });
+        if (dailyLimit && dailySpent) windows.push({ scope: "daily", limit: dailyLimit, spent: dailySpent });
+        return windows;
+}
+
+/** Every window that applies to a session: its own cap plus the owner's caps. */
+export async function loadBudgetWindows(
+        session: MagiSession,
+        usage: { messages: MagiMessage[]; votes: MagiVote[] }
+): Promise<BudgetWindow[]> {
+        const windows: BudgetWindow[] = [];
+        const sessionLimit = normalizeBudgetLimit(session.settings?.budget);
+        if (sessionLimit) {
+                windows.push({ scope: "session", limit: sessionLimit, spent: sumUsageRows([...usage.messages, ...usage.votes]) });
+        }
+        return [...windows, ...(await loadUserBudgetWindows(session.user_id))];
+}
+
+export type BudgetGuard = {
+        /** Throws BudgetExceededError when any window is used up. */
+        check(): void;
+        record(spend: BudgetSpend): void;
+};
+
+// Provider requests already in flight when a cap is reached still complete,
+// so a run can overshoot by at most the requests that started before the last
+// check.
+export function createBudgetGuard(windows: BudgetWindow[]): BudgetGuard {
+        return {
+                check() {
+                        const violation = budgetViolation(windows);
+                        if (violation) throw new BudgetExceededError(violation.message, violation.scope);
+                },
+                record(spend) {
+                        for (const window of windows) {
+                                window.spent = {
+                                        tokens: window.spent.tokens + spend.tokens,
+                                        costUsd: window.spent.costUsd + spend.costUsd,
+                                };
+                        }
+                },
+        };
+}
+
+// Rough per-call token counts used only for the pre-run estimate. Proposals
+// carry the artifact context and up to MAX_HTTP_TOOL_CALLS relay turns, and
+// proposals and revisions answer with the longer findings JSON.
+const ESTIMATED_CALL_TOKENS = {
+        propose: { promptTokens: 12_000, completionTokens: 1_500 },
+        critique: { promptTokens: 1_200, completionTokens: 250 },
+        vote: { promptTokens: 1_600, completionTokens: 250 },
+        revise: { promptTokens: 3_000, completionTokens: 1_200 },
+        synthesize: { promptTokens: 4_000, completionTokens: 600 },
+};
+
+/** Expected tokens and cost of a full run, assuming every round is used. */
+export function estimateRunSpend(
+        agents: MagiAgent[],
+        settings: Pick<MagiSessionSettings, "debateRounds" | "consensusMode">
+): BudgetSpend {
+        const rounds = Math.max(1, settings.debateRounds ?? 1);
+        const peers = Math.max(0, agents.length - 1);
+        let tokens = 0;
+        let costUsd = 0;
+        const add = (agent: MagiAgent, kind: keyof typeof ESTIMATED_CALL_TOKENS, calls: number) => {
+                if (calls <= 0) return;
+                const perCall = ESTIMATED_CALL_TOKENS[kind];
+                const usage = {
+                        promptTokens: perCall.promptTokens * calls,
+                        completionTokens: perCall.completionTokens * calls,
+                        cachedTokens: 0,
+                };
+                tokens += usage.promptTokens + usage.completionTokens;
+                costUsd += usageCost(agent.model, usage) ?? 0;
+        };
+        for (const agent of agents) {
+                add(agent, "propose", 1);
+                add(agent, "revise", rounds - 1);
+                add(agent, "critique", peers * rounds);
+                add(agent, "vote", peers * rounds);
+        }
+        if (settings.consensusMode === "synthesize" && agents.length > 1) add(agents[0], "synthesize", 1);
+        return { tokens, costUsd };
+}
+
+/** Describe each window the estimate would push past its cap. */
+export function budgetWarnings(windows: BudgetWindow[], estimate: BudgetSpend): string[] {
+        const warnings: string[] = [];
+        for (const window of windows) {
+                const label = SCOPE_LABELS[window.scope];
+                const maxTokens = positiveOrNull(window.limit.maxTokens);
+                const maxCostUsd = positiveOrNull(window.limit.maxCostUsd);
+                if (maxTokens !== null && window.spent.tokens + estimate.tokens > maxTokens) {
+                        const remaining = Math.max(0, maxTokens - window.spent.tokens);
+                        warnings.push(
+                                `${label} budget has ${remaining.toLocaleString()} tokens left; this run may use ~${estimate.tokens.toLocaleString()}`
+                        );
+                }
+                if (maxCostUsd !== null && window.spent.costUsd + estimate.costUsd > maxCostUsd) {
+                        const remaining = Math.max(0, maxCostUsd - window.spent.costUsd);
+                        warnings.push(
+                                `${label} budget has $${remaining.toFixed(2)} left; this run may cost ~$${estimate.costUsd.toFixed(2)}`
+                        );
+                }
+        }
+        return warnings;
+}
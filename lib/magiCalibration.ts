@@ -0,0 +1,92 @@
+import type {
+        MagiAgentScoreBaseline,
+        MagiCalibrationDiagnostics,
+        MagiMessage,
+        MagiScoreCalibration,
+        MagiVote,
+} from "@/lib/magiTypes";
+
+export const SCORE_CALIBRATIONS: MagiScoreCalibration[] = ["none", "session", "history"];
+/** Most recent votes per agent that a running ("history") baseline looks at. */
+export const CALIBRATION_HISTORY_LIMIT = 200;
+
+/**
+ * Calibrated scores are z-scores mapped back onto the vote scale, so an
+ * agent's average vote lands on CALIBRATED_MEAN and one standard deviation
+ * is CALIBRATED_SPREAD points either side.
+ */
+const CALIBRATED_MEAN = 50;
+const CALIBRATED_SPREAD = 15;
+/** Below this a voter barely varies its scores; treat the spread as this wide instead. */
+const MIN_STD_DEV = 5;
+
+export function normalizeScoreCalibration(raw: unknown): MagiScoreCalibration {
+        return typeof raw === "string" && (SCORE_CALIBRATIONS as string[]).includes(raw) ? (raw as MagiScoreCalibration) : "none";
+}
+
+function round2(value: number): number {
+        return Math.round(value * 100) / 100;
+}
+
+/** Votes that came from a model reply; heuristic fallback scores say nothing about the voter. */
+export function isCalibrationSample(vote: Pick<MagiVote, "meta">): boolean {
+        return !(vote.meta && typeof vote.meta === "object" && vote.meta.fallback === true);
+}
+
+/** Mean and standard deviation of each agent's scores. */
+export function scoreBaselines(votes: Pick<MagiVote, "agent_id" | "score" | "meta">[]): MagiAgentScoreBaseline[] {
+        const byAgent = new Map<string, number[]>();
+        for (const v of votes) {
+                if (!isCalibrationSample(v)) continue;
+                const scores = byAgent.get(v.agent_id) ?? [];
+                scores.push(Number(v.score) || 0);
+                byAgent.set(v.agent_id, scores);
+        }
+        return Array.from(byAgent.entries()).map(([agentId, scores]) => {
+                const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+                const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length;
+                return { agentId, mean: round2(mean), stdDev: round2(Math.sqrt(variance)), samples: scores.length };
+        });
+}
+
+/**
+ * The votes with each score replaced by its calibrated value. Agents without
+ * a baseline keep their raw scores, and so do fallback votes: a placeholder
+ * score was never the agent's judgment, so there is nothing to rescale.
+ */
+export function calibrateVotes(votes: MagiVote[], baselines: MagiAgentScoreBaseline[]): MagiVote[] {
+        const byAgent = new Map(baselines.map((b) => [b.agentId, b]));
+        return votes.map((v) => {
+                const baseline = byAgent.get(v.agent_id);
+                if (!baseline || !isCalibrationSample(v)) return v;
+                const z = ((Number(v.score) || 0) - baseline.mean) / Math.max(baseline.stdDev, MIN_STD_DEV);
+                return { ...v, score: round2(Math.max(0, Math.min(100, CALIBRATED_MEAN + CALIBRATED_SPREAD * z))) };
+        });
+}
+
+/** Raw and calibrated weighted sums per proposal, for the diagnostics. */
+export function calibrationDiagnostics(params: {
+        mode: MagiScoreCalibration;
+        baselines: MagiAgentScoreBaseline[];
+        proposals: MagiMessage[];
+        raw: MagiVote[];
+        calibrated: MagiVote[];
+        weights?: Record<string, number> | null;
+}): MagiCalibrationDiagnostics {
+        const weightOf = (agentId: string) => params.weights?.[agentId] ?? 1;
+        const total = (votes: MagiVote[], proposalId: number) =>
+                round2(
+                        votes
+                                .filter((v) => v.target_message_id === proposalId)
+                                .reduce((sum, v) => sum + weightOf(v.agent_id) * (Number(v.score) || 0), 0)
+                );
+        return {
+                mode: params.mode,
+                baselines: params.baselines,
+                totals: params.proposals.map((p) => ({
+                        proposalId: p.id,
+                        raw: total(params.raw, p.id),
+                        normalized: total(params.calibrated, p.id),
+                })),
+        };
+}
@@ -0,0 +1,34 @@
+export const DEFAULT_PROPOSAL_CONCURRENCY = 3;
+export const MAX_PROPOSAL_CONCURRENCY = 8;
+
+export function clampProposalConcurrency(raw: unknown): number {
+        const parsed = typeof raw === "number" ? raw : typeof raw === "string" ? Number.parseInt(raw, 10) : NaN;
+        if (!Number.isFinite(parsed)) return DEFAULT_PROPOSAL_CONCURRENCY;
+        return Math.max(1, Math.min(MAX_PROPOSAL_CONCURRENCY, Math.round(parsed)));
+}
+
+/**
+ * Like Promise.allSettled over `items.map(fn)`, but with at most `limit`
+ * calls in flight. Results keep the order of `items`.
+ */
+export async function mapSettledWithConcurrency<T, R>(
+        items: T[],
+        limit: number,
+        fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+        const results: PromiseSettledResult<R>[] = new Array(items.length);
+        let cursor = 0;
+        async function worker() {
+                while (cursor < items.length) {
+                        const index = cursor++;
+                        try {
+                                results[index] = { status: "fulfilled", value: await fn(items[index], index) };
+                        } catch (reason) {
+                                results[index] = { status: "rejected", reason };
+                        }
+                }
+        }
+        const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+        await Promise.all(workers);
+        return results;
+}
@@ -0,0 +1,111 @@
+import type { MagiDiagnosticsPositionSummary, MagiMessage, MagiVote } from "@/lib/magiTypes";
+
+export const DEFAULT_DEBATE_ROUNDS = 1;
+export const MAX_DEBATE_ROUNDS = 5;
+// Average vote scores that move by less than this between rounds count as settled.
+export const DEBATE_CONVERGENCE_DELTA = 2;
+
+export function clampDebateRounds(raw: unknown): number {
+        const parsed = typeof raw === "number" ? raw : typeof raw === "string" ? Number.parseInt(raw, 10) : NaN;
+        if (!Number.isFinite(parsed)) return DEFAULT_DEBATE_ROUNDS;
+        return Math.max(1, Math.min(MAX_DEBATE_ROUNDS, Math.round(parsed)));
+}
+
+function readMetaNumber(meta: unknown, key: string): number | null {
+        if (!meta || typeof meta !== "object") return null;
+        const raw = (meta as Record<string, unknown>)[key];
+        if (typeof raw === "number" && Number.isFinite(raw)) return raw;
+        if (typeof raw === "string") {
+                const parsed = Number.parseInt(raw, 10);
+                if (Number.isFinite(parsed)) return parsed;
+        }
+        return null;
+}
+
+/**
+ * Proposals written before debate rounds existed carry no round marker, so
+ * they are treated as the opening round.
+ */
+export function messageRound(message: Pick<MagiMessage, "meta">): number {
+        return readMetaNumber(message.meta, "round") ?? 1;
+}
+
+export function revisionOf(message: Pick<MagiMessage, "meta">): number | null {
+        return readMetaNumber(message.meta, "revisionOf");
+}
+
+export function latestRound(messages: MagiMessage[]): number {
+        let round = 0;
+        for (const m of messages) {
+                if (m.role !== "agent_proposal") continue;
+                round = Math.max(round, messageRound(m));
+        }
+        return round;
+}
+
+export function proposalsForRound(messages: MagiMessage[], round: number): MagiMessage[] {
+        return messages.filter((m) => m.role === "agent_proposal" && messageRound(m) === round);
+}
+
+export function latestRoundProposals(messages: MagiMessage[]): MagiMessage[] {
+        return proposalsForRound(messages, latestRound(messages));
+}
+
+function averageScoreFor(messageId: number, votes: MagiVote[]): { average: number | null; count: number } {
+        const received = votes.filter((v) => v.target_message_id === messageId);
+        if (received.length === 0) return { average: null, count: 0 };
+        const total = received.reduce((sum, v) => sum + (Number(v.score) || 0), 0);
+        return { average: Math.round((total / received.length) * 10) / 10, count: received.length };
+}
+
+function previewText(content: string, maxLength = 120): string {
+        const normalized = content.replace(/\s+/g, " ").trim();
+        if (normalized.length <= maxLength) return normalized;
+        return `${normalized.slice(0, Math.max(0, maxLength - 1))}…`;
+}
+
+/**
+ * One entry per round in which the agent held a position, oldest first, with
+ * the average score its proposal received in that round's vote.
+ */
+export function buildPositionHistory(
+        agentId: string,
+        messages: MagiMessage[],
+        votes: MagiVote[]
+): MagiDiagnosticsPositionSummary[] {
+        return messages
+                .filter((m) => m.role === "agent_proposal" && m.agent_id === agentId)
+                .map((m) => {
+                        const { average, count } = averageScoreFor(m.id, votes);
+                        return {
+                                round: messageRound(m),
+                                messageId: m.id,
+                                revisionOf: revisionOf(m),
+                                averageScore: average,
+                                voteCount: count,
+                                preview: previewText(m.content),
+                        };
+                })
+                .sort((a, b) => a.round - b.round || a.messageId - b.messageId);
+}
+
+/**
+ * A debate has converged when every agent present in both rounds kept its
+ * average score within DEBATE_CONVERGENCE_DELTA of the previous round.
+ */
+export function debateConverged(messages: MagiMessage[], votes: MagiVote[], round: number): boolean {
+        if (round <= 1) return false;
+        const current = proposalsForRound(messages, round);
+        const previous = proposalsForRound(messages, round - 1);
+        let compared = 0;
+        for (const proposal of current) {
+                const earlier = previous.find((p) => p.agent_id === proposal.agent_id);
+                if (!earlier) continue;
+                const now = averageScoreFor(proposal.id, votes).average;
+                const before = averageScoreFor(earlier.id, votes).average;
+                if (now === null || before === null) return false;
+                if (Math.abs(now - before) > DEBATE_CONVERGENCE_DELTA) return false;
+                compared += 1;
+        }
+        return compared > 0;
+}
@@ -0,0 +1,85 @@
+import type {
+        MagiAgent,
+        MagiDissentPoint,
+        MagiFinding,
+        MagiFindingCluster,
+        MagiFindingSeverity,
+        MagiMessage,
+        MagiVote,
+        MagiVoteSpread,
+} from "@/lib/magiTypes";
+
+/** Severities serious enough to survive in the minority report when one agent raised them. */
+const DISSENT_SEVERITIES: MagiFindingSeverity[] = ["critical", "high"];
+/** A gap this wide between the highest and lowest raw score marks a split vote. */
+export const SPLIT_VOTE_SPREAD = 40;
+
+function voteSpread(messageId: number, votes: MagiVote[]): MagiVoteSpread | null {
+        const scores = votes
+                .filter((v) => v.target_message_id === messageId)
+                .map((v) => ({ agentId: v.agent_id, score: Number(v.score) || 0 }));
+        if (scores.length === 0) return null;
+        const values = scores.map((s) => s.score);
+        return { min: Math.min(...values), max: Math.max(...values), scores };
+}
+
+function firstLine(content: string, maxLength = 120): string {
+        const line = content.split("\n").find((l) => l.trim())?.trim() ?? "";
+        return line.length <= maxLength ? line : `${line.slice(0, maxLength - 1)}…`;
+}
+
+/**
+ * The points the consensus should keep on record even though it did not
+ * adopt them: critical or high findings that only one agent reported, and
+ * proposals whose voters disagreed by SPLIT_VOTE_SPREAD or more.
+ */
+export function buildDissentReport(params: {
+        proposals: MagiMessage[];
+        votes: MagiVote[];
+        findings: MagiFinding[];
+        clusters: MagiFindingCluster[];
+}): MagiDissentPoint[] {
+        const { proposals, votes } = params;
+        const findingById = new Map(params.findings.map((f) => [f.id, f]));
+        const points: MagiDissentPoint[] = [];
+        for (const cluster of params.clusters) {
+                if (cluster.agreement !== 1 || !DISSENT_SEVERITIES.includes(cluster.severity)) continue;
+                const finding = cluster.findingIds.map((id) => findingById.get(id)).find((f) => f?.severity === cluster.severity);
+                if (!finding) continue;
+                points.push({
+                        kind: "solo",
+                        messageId: finding.message_id,
+                        agentId: finding.agent_id,
+                        title: cluster.title,
+                        severity: cluster.severity,
+                        spread: voteSpread(finding.message_id, votes),
+                });
+        }
+        for (const proposal of proposals) {
+                const spread = voteSpread(proposal.id, votes);
+                if (!spread || spread.max - spread.min < SPLIT_VOTE_SPREAD) continue;
+                points.push({
+                        kind: "split",
+                        messageId: proposal.id,
+                        agentId: proposal.agent_id,
+                        title: firstLine(proposal.content),
+                        severity: null,
+                        spread,
+                });
+        }
+        return points;
+}
+
+/** The minority report section appended to the consensus message. */
+export function formatDissentReport(points: MagiDissentPoint[], agents: MagiAgent[]): string {
+        const name = (id: string | null) => (id ? agents.find((a) => a.id === id)?.name ?? id : "unknown agent");
+        const lines = points.map((p) => {
+                const spread = p.spread
+                        ? `votes ${p.spread.min}–${p.spread.max} (${p.spread.scores.map((s) => `${name(s.agentId)} ${s.score}`).join(", ")})`
+                        : "no votes";
+                return p.kind === "solo"
+                        ? `- [${p.severity?.toUpperCase()}] ${p.title} — raised only by ${name(p.agentId)} in #${p.messageId}; ${spread}`
+                        : `- Split vote on #${p.messageId} by ${name(p.agentId)}: ${p.title}; ${spread}`;
+        });
+        return `Minority report:\n${lines.join("\n")}`;
+}
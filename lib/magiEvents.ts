@@ -0,0 +1,23 @@
+import { EventEmitter } from "node:events";
+import type { MagiStreamEvent, MagiStreamEventPayload } from "@/lib/magiTypes";
+
+type SessionListener = (event: MagiStreamEvent) => void;
+
+// Runs execute inside this Node process (see magiRunner), so an in-memory bus
+// is enough to fan events out to every open stream. Kept on globalThis so dev
+// hot reloads do not split publishers and subscribers across module copies.
+const globalBus = globalThis as typeof globalThis & { __magiSessionEvents?: EventEmitter };
+const bus = globalBus.__magiSessionEvents ?? (globalBus.__magiSessionEvents = new EventEmitter());
+bus.setMaxListeners(0);
+
+export function publishSessionEvent(sessionId: string, payload: MagiStreamEventPayload) {
+        const event = { ...payload, sessionId, at: new Date().toISOString() } as MagiStreamEvent;
+        bus.emit(sessionId, event);
+}
+
+export function subscribeSessionEvents(sessionId: string, listener: SessionListener): () => void {
+        bus.on(sessionId, listener);
+        return () => {
+                bus.off(sessionId, listener);
+        };
+}
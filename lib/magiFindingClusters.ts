@@ -0,0 +1,146 @@
+import { FINDING_SEVERITIES } from "@/lib/magiFindings";
+import type { MagiAgent, MagiFinding, MagiFindingCluster, MagiFindingsSummary } from "@/lib/magiTypes";
+
+/** Line ranges this close together count as the same spot. */
+const LINE_SLACK = 3;
+/** Text similarity enough on its own to call two findings the same issue. */
+const SAME_TEXT = 0.45;
+/** Text similarity enough when the CWE already matches. */
+const SAME_TEXT_WITH_CWE = 0.2;
+
+const STOPWORDS = new Set([
+        "the", "and", "for", "with", "that", "this", "from", "are", "was", "can", "not", "any", "into", "via",
+        "allows", "allow", "could", "may", "which", "when", "user", "users", "input", "issue", "risk", "missing",
+]);
+
+function normalizePath(path: string | null): string | null {
+        if (!path) return null;
+        const cleaned = path.trim().replace(/\\/g, "/").replace(/^\.?\//, "").toLowerCase();
+        return cleaned || null;
+}
+
+function tokens(finding: MagiFinding): Set<string> {
+        const words = `${finding.title} ${finding.evidence ?? ""}`.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+        return new Set(words.filter((w) => w.length > 2 && !STOPWORDS.has(w)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+        if (a.size === 0 || b.size === 0) return 0;
+        let shared = 0;
+        a.forEach((word) => {
+                if (b.has(word)) shared++;
+        });
+        return shared / (a.size + b.size - shared);
+}
+
+function linesNear(a: MagiFinding, b: MagiFinding): boolean | null {
+        if (a.line_start === null || b.line_start === null) return null;
+        const aEnd = a.line_end ?? a.line_start;
+        const bEnd = b.line_end ?? b.line_start;
+        return a.line_start <= bEnd + LINE_SLACK && b.line_start <= aEnd + LINE_SLACK;
+}
+
+/**
+ * Whether two findings describe the same issue. Different files never match;
+ * the same file matches on nearby lines, or on CWE or wording when a line is
+ * missing; without file paths it comes down to CWE and wording.
+ */
+function sameIssue(a: MagiFinding, b: MagiFinding, similarity: number): boolean {
+        // One reply listing two findings means the agent saw two issues.
+        if (a.message_id === b.message_id) return false;
+        const pathA = normalizePath(a.file_path);
+        const pathB = normalizePath(b.file_path);
+        const sameCwe = a.cwe !== null && a.cwe === b.cwe;
+        if (pathA && pathB) {
+                if (pathA !== pathB) return false;
+                const near = linesNear(a, b);
+                if (near !== null) return near;
+                return sameCwe || similarity >= SAME_TEXT_WITH_CWE;
+        }
+        return similarity >= SAME_TEXT || (sameCwe && similarity >= SAME_TEXT_WITH_CWE);
+}
+
+function severityRank(severity: MagiFinding["severity"]): number {
+        const index = FINDING_SEVERITIES.indexOf(severity);
+        return index === -1 ? FINDING_SEVERITIES.length : index;
+}
+
+/**
+ * Group findings from different agents that describe the same issue and count
+ * how many of the roster's agents reported each one. Matching is transitive,
+ * so A~B and B~C put all three in one cluster.
+ */
+export function clusterFindings(findings: MagiFinding[], roster: MagiAgent[]): MagiFindingsSummary {
+        const parent = findings.map((_f, i) => i);
+        const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+        const words = findings.map(tokens);
+        for (let i = 0; i < findings.length; i++) {
+                for (let j = i + 1; j < findings.length; j++) {
+                        if (find(i) === find(j)) continue;
+                        if (sameIssue(findings[i], findings[j], jaccard(words[i], words[j]))) parent[find(j)] = find(i);
+                }
+        }
+
+        const groups = new Map<number, MagiFinding[]>();
+        findings.forEach((f, i) => {
+                const root = find(i);
+                groups.set(root, [...(groups.get(root) ?? []), f]);
+        });
+
+        const rosterIds = roster.map((a) => a.id);
+        const rosterOrder = (id: string) => {
+                const index = rosterIds.indexOf(id);
+                return index === -1 ? rosterIds.length : index;
+        };
+        const clusters: MagiFindingCluster[] = Array.from(groups.values()).map((members) => {
+                // The most severe report names the cluster; ties go to the earliest.
+                const lead = members.reduce((best, f) => (severityRank(f.severity) < severityRank(best.severity) ? f : best));
+                const path = normalizePath(lead.file_path);
+                const located = members.filter((f) => path && normalizePath(f.file_path) === path && f.line_start !== null);
+                const agentIds = Array.from(new Set(members.map((f) => f.agent_id).filter((id): id is string => !!id))).sort(
+                        (a, b) => rosterOrder(a) - rosterOrder(b)
+                );
+                return {
+                        rank: 0,
+                        title: lead.title,
+                        severity: lead.severity,
+                        file_path: lead.file_path,
+                        line_start: located.length > 0 ? Math.min(...located.map((f) => f.line_start!)) : null,
+                        line_end: located.length > 0 ? Math.max(...located.map((f) => f.line_end ?? f.line_start!)) : null,
+                        cwe: lead.cwe ?? members.find((f) => f.cwe)?.cwe ?? null,
+                        findingIds: members.map((f) => f.id),
+                        agentIds,
+                        agreement: agentIds.length,
+                        rosterSize: Math.max(roster.length, agentIds.length),
+                };
+        });
+        clusters.sort(
+                (a, b) =>
+                        b.agreement - a.agreement ||
+                        severityRank(a.severity) - severityRank(b.severity) ||
+                        a.findingIds[0] - b.findingIds[0]
+        );
+        clusters.forEach((c, index) => {
+                c.rank = index + 1;
+        });
+
+        const shared = rosterIds.map((a) =>
+                rosterIds.map((b) => clusters.filter((c) => c.agentIds.includes(a) && c.agentIds.includes(b)).length)
+        );
+        return { clusters, matrix: { agentIds: rosterIds, shared } };
+}
+
+/** The ranked clusters as text for the consensus message. */
+export function formatFindingClusters(clusters: MagiFindingCluster[], agents: MagiAgent[]): string {
+        const lines = clusters.map((c) => {
+                const where = c.file_path
+                        ? c.line_start !== null
+                                ? `${c.file_path}:${c.line_start}${c.line_end !== null && c.line_end !== c.line_start ? `-${c.line_end}` : ""}`
+                                : c.file_path
+                        : null;
+                const tags = [where, c.cwe].filter(Boolean).join(", ");
+                const names = c.agentIds.map((id) => agents.find((a) => a.id === id)?.name ?? id).join(", ");
+                return `- ${c.agreement}/${c.rosterSize} [${c.severity.toUpperCase()}] ${c.title}${tags ? ` (${tags})` : ""} — ${names}`;
+        });
+        return `Findings by agreement:\n${lines.join("\n")}`;
+}
@@ -0,0 +1,128 @@
+import type { MagiFindingDraft, MagiFindingSeverity } from "@/lib/magiTypes";
+
+export const FINDING_SEVERITIES: MagiFindingSeverity[] = ["critical", "high", "medium", "low", "info"];
+
+const MAX_FINDINGS = 20;
+const MAX_FIELD_CHARS = 2000;
+/** Output-token cap for proposal and revision replies, which carry the findings JSON. */
+export const FINDINGS_MAX_OUTPUT_TOKENS = 4096;
+
+/** The reply format rendered into proposal and revision prompts as {{findings_format}}. */
+export const FINDINGS_FORMAT = `Reply ONLY with a JSON object:
+{"summary": "overall assessment, under 160 words", "findings": [{"title": "short name", "severity": "${FINDING_SEVERITIES.join(" | ")}", "file_path": "path or null", "line_start": 1, "line_end": 1, "cwe": "CWE-79 or null", "evidence": "what shows the issue", "remediation": "how to fix it"}]}
+Use null for a field you cannot fill and an empty findings array when there is nothing to report.`;
+
+function text(value: unknown): string | null {
+        if (typeof value !== "string") return null;
+        const trimmed = value.trim();
+        return trimmed ? trimmed.slice(0, MAX_FIELD_CHARS) : null;
+}
+
+function lineNumber(value: unknown): number | null {
+        const parsed = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+        return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+function normalizeCwe(value: unknown): string | null {
+        const raw = typeof value === "number" ? String(value) : typeof value === "string" ? value.trim() : "";
+        const match = raw.match(/^(?:CWE[-\s]?)?(\d{1,5})$/i);
+        return match ? `CWE-${Number(match[1])}` : null;
+}
+
+/** A validated finding, or why the entry was dropped. */
+export function validateFinding(raw: unknown): MagiFindingDraft | string {
+        if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "not an object";
+        const entry = raw as Record<string, unknown>;
+        const title = text(entry.title);
+        if (!title) return "missing title";
+        const severity = typeof entry.severity === "string" ? entry.severity.trim().toLowerCase() : "";
+        if (!(FINDING_SEVERITIES as string[]).includes(severity)) return `"${title}" has unknown severity ${JSON.stringify(entry.severity ?? null)}`;
+        let lineStart = lineNumber(entry.line_start);
+        let lineEnd = lineNumber(entry.line_end) ?? lineStart;
+        if (lineStart === null) lineStart = lineEnd;
+        if (lineStart !== null && lineEnd !== null && lineEnd < lineStart) [lineStart, lineEnd] = [lineEnd, lineStart];
+        return {
+                title: title.slice(0, 200),
+                severity: severity as MagiFindingSeverity,
+                file_path: text(entry.file_path),
+                line_start: lineStart,
+                line_end: lineEnd,
+                cwe: normalizeCwe(entry.cwe),
+                evidence: text(entry.evidence),
+                remediation: text(entry.remediation),
+        };
+}
+
+export type ParsedFindings = {
+        summary: string;
+        findings: MagiFindingDraft[];
+        /** One reason per entry that failed validation. */
+        rejected: string[];
+};
+
+/**
+ * Findings from a parsed proposal reply. Returns null when the reply does not
+ * follow the schema at all, so the caller can keep it as free text.
+ */
+export function readFindings(parsed: Record<string, unknown> | null): ParsedFindings | null {
+        if (!parsed || !Array.isArray(parsed.findings)) return null;
+        const findings: MagiFindingDraft[] = [];
+        const rejected: string[] = [];
+        for (const raw of parsed.findings) {
+                const result = validateFinding(raw);
+                if (typeof result === "string") rejected.push(result);
+                else if (findings.length < MAX_FINDINGS) findings.push(result);
+                else rejected.push(`"${result.title}" is over the ${MAX_FINDINGS}-finding limit`);
+        }
+        return { summary: text(parsed.summary) ?? "", findings, rejected };
+}
+
+/** The summary string of a JSON reply that was cut off or is otherwise malformed. */
+function summaryFromFragment(raw: string): string | null {
+        const match = raw.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)/);
+        if (!match) return null;
+        try {
+                return text(JSON.parse(`"${match[1]}"`));
+        } catch {
+                return text(match[1]);
+        }
+}
+
+/**
+ * Readable text for a reply that yielded no findings: its summary when one
+ * can be recovered, else the prose around the JSON, so a truncated object is
+ * never stored as the message.
+ */
+export function readableReply(raw: string, parsed: Record<string, unknown> | null): string {
+        const summary = text(parsed?.summary) ?? summaryFromFragment(raw);
+        if (summary) return summary;
+        const prose = raw
+                .replace(/```(?:json)?[\s\S]*?(?:```|$)/gi, "")
+                .replace(/\{\s*"[\s\S]*$/, "")
+                .trim();
+        return prose || "The reply could not be read.";
+}
+
+function formatLocation(finding: MagiFindingDraft): string | null {
+        if (!finding.file_path) return null;
+        if (finding.line_start === null) return finding.file_path;
+        return finding.line_end !== null && finding.line_end !== finding.line_start
+                ? `${finding.file_path}:${finding.line_start}-${finding.line_end}`
+                : `${finding.file_path}:${finding.line_start}`;
+}
+
+/**
+ * The prose stored as the message content, so critiques, votes and the
+ * consensus read findings the same way they read free-text proposals.
+ */
+export function renderFindingsProse(summary: string, findings: MagiFindingDraft[]): string {
+        const items = findings.map((f, index) => {
+                const tags = [formatLocation(f), f.cwe].filter(Boolean).join(", ");
+                const lines = [`${index + 1}. [${f.severity.toUpperCase()}] ${f.title}${tags ? ` (${tags})` : ""}`];
+                if (f.evidence) lines.push(`   Evidence: ${f.evidence}`);
+                if (f.remediation) lines.push(`   Fix: ${f.remediation}`);
+                return lines.join("\n");
+        });
+        const body = items.length > 0 ? `Findings:\n${items.join("\n")}` : "No findings reported.";
+        return summary ? `${summary}\n\n${body}` : body;
+}
@@ -0,0 +1,19 @@
+import type { MagiJob } from "@/lib/magiTypes";
+
+// A running job that has not written a heartbeat for this long is treated as
+// abandoned (server restart, crashed worker) and may be resumed.
+export const JOB_STALL_AFTER_MS = 5 * 60_000;
+// How often a run refreshes its heartbeat while a step is in flight, so a
+// step that outlasts JOB_STALL_AFTER_MS is not mistaken for a stalled one.
+export const JOB_HEARTBEAT_INTERVAL_MS = 30_000;
+
+export function isJobStalled(job: Pick<MagiJob, "status" | "heartbeat_at">, now = Date.now()): boolean {
+        if (job.status !== "running") return false;
+        const heartbeat = new Date(job.heartbeat_at).getTime();
+        return !Number.isFinite(heartbeat) || now - heartbeat > JOB_STALL_AFTER_MS;
+}
+
+export function isJobResumable(job: Pick<MagiJob, "status" | "heartbeat_at"> | null | undefined): boolean {
+        if (!job) return false;
+        return job.status === "error" || isJobStalled(job);
+}
@@ -0,0 +1,135 @@
+import { VERDICT_FORMAT } from "@/lib/magiVerdict";
+import type { MagiAgent, MagiPromptStage, MagiPromptTemplate, MagiPromptTemplateRef } from "@/lib/magiTypes";
+
+export const PROMPT_STAGES: MagiPromptStage[] = ["proposal", "critique", "vote", "revision", "verdict"];
+
+export type PromptVariables = {
+        agent_name: string;
+        question: string;
+        /** Uploaded bundle excerpt; only gathered for proposals. */
+        artifact_context?: string | null;
+        /** Live URL probe results; only gathered for proposals. */
+        live_context?: string | null;
+        /** The debate round the prompt is written for. */
+        round?: number | null;
+        /** Rubric criteria and the JSON reply format; only filled for votes. */
+        rubric?: string | null;
+        /** The findings JSON schema; only filled for proposals and revisions. */
+        findings_format?: string | null;
+        /** The statement being approved or rejected; only filled for verdicts. */
+        proposition?: string | null;
+};
+
+export const PROMPT_VARIABLES: { name: keyof PromptVariables; description: string }[] = [
+        { name: "agent_name", description: "Name of the agent being prompted" },
+        { name: "question", description: "The operator's question" },
+        { name: "artifact_context", description: "Uploaded bundle excerpt (proposals only)" },
+        { name: "live_context", description: "Live URL probe results (proposals only)" },
+        { name: "round", description: "Debate round the answer belongs to" },
+        { name: "rubric", description: "Scoring criteria and reply format (votes only)" },
+        { name: "findings_format", description: "Findings JSON schema (proposals and revisions)" },
+        { name: "proposition", description: "Statement to approve or reject (verdicts only)" },
+];
+
+// The prompts MAGI shipped with, used until a template is saved. Sections
+// written {{#name}}…{{/name}} only render when the variable is non-empty and
+// {{^name}}…{{/name}} only when it is empty.
+export const DEFAULT_PROMPT_TEMPLATES: Record<MagiPromptStage, string> = {
+        proposal: `You are {{agent_name}}. Provide a concise, security-focused audit response. Highlight high-risk vulnerabilities, abuse cases, and hardening steps.
+
+{{#artifact_context}}Repository context:
+{{artifact_context}}
+
+Your findings must reference file paths and explain why each issue is risky.{{/artifact_context}}{{^artifact_context}}Reference concrete code risks where possible.{{/artifact_context}}
+
+{{#live_context}}Live URL probe results:
+{{live_context}}
+
+Incorporate any exposed endpoints, headers, or responses into the audit.{{/live_context}}
+
+You can issue additional HTTP requests using the MAGI curl tool whenever you need to inspect a live endpoint. Always summarize what you learned from each probe.
+
+{{findings_format}}`,
+        critique: `You are {{agent_name}}. Critique a peer's security audit proposal. Point out factual errors, missed vulnerabilities, overstated risks, and weak remediation advice. Be specific and keep it under 120 words.`,
+        vote: `You are {{agent_name}}. Evaluate the proposal's quality, clarity, factuality, risks, and tradeoffs. Weigh the peer critiques, but judge for yourself whether they hold up. Provide a detailed rationale of at least 3 sentences, referencing specifics.
+
+{{rubric}}`,
+        revision: `You are {{agent_name}}. You are in round {{round}} of a security audit debate. Revise your previous proposal in light of your peers' proposals and the critiques you received. Keep findings you still stand by, drop ones that were refuted, and adopt well-supported findings from peers.
+
+{{findings_format}}`,
+        verdict: `You are {{agent_name}}. The security audit debate is over. Using the consensus report, decide whether you approve or reject the proposition below. Abstain only if the evidence is genuinely insufficient.
+
+Proposition: {{proposition}}
+
+${VERDICT_FORMAT}`,
+};
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+function variableText(vars: PromptVariables, name: string): string {
+        const value = (vars as Record<string, unknown>)[name];
+        return value === null || value === undefined ? "" : String(value);
+}
+
+export function renderPromptTemplate(body: string, vars: PromptVariables): string {
+        return body
+                .replace(SECTION_PATTERN, (_match, kind: string, name: string, inner: string) => {
+                        const present = variableText(vars, name).trim() !== "";
+                        return (kind === "#") === present ? inner : "";
+                })
+                .replace(VARIABLE_PATTERN, (_match, name: string) => variableText(vars, name))
+                .replace(/\n{3,}/g, "\n\n")
+                .trim();
+}
+
+/** Why a template body cannot be saved, or null when it is usable. */
+export function promptTemplateError(body: unknown): string | null {
+        if (typeof body !== "string" || !body.trim()) return "Template body is required";
+        const known = new Set<string>(PROMPT_VARIABLES.map((v) => v.name));
+        const names = [
+                ...Array.from(body.matchAll(SECTION_PATTERN), (m) => m[2]),
+                ...Array.from(body.replace(SECTION_PATTERN, "$3").matchAll(VARIABLE_PATTERN), (m) => m[1]),
+        ];
+        const unknown = names.filter((name) => !known.has(name));
+        if (unknown.length > 0) return `Unknown template variable ${Array.from(new Set(unknown)).join(", ")}`;
+        if (/\{\{[#^/]/.test(body.replace(SECTION_PATTERN, ""))) return "Unclosed template section";
+        return null;
+}
+
+export function isPromptStage(value: unknown): value is MagiPromptStage {
+        return typeof value === "string" && (PROMPT_STAGES as string[]).includes(value);
+}
+
+export type RenderedPrompt = { content: string; template: MagiPromptTemplateRef };
+
+export type PromptSet = {
+        /** The live template for an agent: its own, else the default row, else the built-in prompt. */
+        resolve(agent: MagiAgent, stage: MagiPromptStage): { body: string; template: MagiPromptTemplateRef };
+        render(agent: MagiAgent, stage: MagiPromptStage, vars: Omit<PromptVariables, "agent_name">): RenderedPrompt;
+};
+
+/** Snapshot the templates for one step so every call in it uses the same versions. */
+export function createPromptSet(templates: MagiPromptTemplate[]): PromptSet {
+        const latest = (agentId: string | null, stage: MagiPromptStage) =>
+                templates
+                        .filter((t) => t.agent_id === agentId && t.stage === stage)
+                        .reduce<MagiPromptTemplate | null>((best, t) => (!best || t.version > best.version ? t : best), null);
+        const set: PromptSet = {
+                resolve(agent, stage) {
+                        const row = latest(agent.id, stage) ?? latest(null, stage);
+                        if (!row) {
+                                return {
+                                        body: DEFAULT_PROMPT_TEMPLATES[stage],
+                                        template: { id: null, agentId: null, stage, version: 0 },
+                                };
+                        }
+                        return { body: row.body, template: { id: row.id, agentId: row.agent_id, stage, version: row.version } };
+                },
+                render(agent, stage, vars) {
+                        const { body, template } = set.resolve(agent, stage);
+                        return { content: renderPromptTemplate(body, { ...vars, agent_name: agent.name }), template };
+                },
+        };
+        return set;
+}
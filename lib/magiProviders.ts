@@ -0,0 +1,221 @@
+import { canonicalModelFor } from "@/lib/magiModels";
+import { type RetryAttemptInfo } from "@/lib/magiRetry";
+import { getProviderAdapter, type ProviderAdapter, type ProviderName } from "@/lib/providers";
+import { normalizeBaseUrl, ProviderRequestError } from "@/lib/providers/shared";
+import type { ChatTurn, HttpToolCallInfo, ProviderEndpoint } from "@/lib/providers/types";
+import type { MagiAgent, MagiAgentRoute, MagiFailoverAttempt, MagiTokenUsage } from "@/lib/magiTypes";
+
+export { ProviderRequestError };
+export type { HttpToolCallInfo, ProviderName };
+
+export type ProviderKeyMap = {
+        openai?: string;
+        anthropic?: string;
+        grok?: string;
+        xai?: string;
+        gemini?: string;
+        mistral?: string;
+        /** Keys for agents with a custom `base_url`, by agent slug. */
+        endpoints?: Record<string, string>;
+};
+
+export type AgentChatResult = {
+content: string;
+providerUsed: ProviderName;
+modelUsed: string;
+httpRequestCount: number;
+/** Routes tried and abandoned before `providerUsed` answered, in order. */
+failover: MagiFailoverAttempt[];
+/** Tokens reported by `providerUsed`, summed over every tool-loop turn. */
+usage: MagiTokenUsage;
+};
+
+function shouldFailover(err: unknown): boolean {
+        if (!(err instanceof ProviderRequestError)) return false;
+        return err.timedOut || (err.status !== null && err.status >= 500);
+}
+
+export type AgentChatOptions = {
+        enableHttpTool?: boolean;
+        // When set, providers are called in streaming mode and each text
+        // fragment is passed here as it arrives.
+        onDelta?: (text: string) => void;
+        onToolCall?: (call: HttpToolCallInfo) => void;
+        onRetry?: (attempt: RetryAttemptInfo) => void;
+        /** Cap on reply tokens; unset leaves the provider default. */
+        maxOutputTokens?: number;
+        /** Called before every provider request, fallbacks and tool-loop turns included. */
+        beforeTurn?: () => void;
+        /** Token usage of each provider response, with the model that produced it. */
+        onTurnUsage?: (usage: MagiTokenUsage, model: string) => void;
+        /** Cancels the call, including retries and HTTP relay requests. */
+        signal?: AbortSignal;
+};
+
+function keyForProvider(adapter: ProviderAdapter, keys?: ProviderKeyMap): string | undefined {
+        if (!keys) return undefined;
+        for (const name of adapter.keyNames) {
+                const key = keys[name as keyof ProviderKeyMap];
+                if (typeof key === "string" && key) return key;
+        }
+        return undefined;
+}
+
+/**
+ * The agent's custom endpoint, or null when it talks to its provider's own
+ * API. A malformed base_url throws rather than silently hitting the vendor.
+ */
+export function agentEndpoint(agent: MagiAgent): ProviderEndpoint | null {
+        if (!agent.base_url) return null;
+        const baseUrl = normalizeBaseUrl(agent.base_url);
+        if (!baseUrl) throw new Error(`Invalid base_url for ${agent.name}`);
+        const headers: Record<string, string> = {};
+        if (agent.extra_headers && typeof agent.extra_headers === "object") {
+                for (const [name, value] of Object.entries(agent.extra_headers)) {
+                        if (typeof value === "string") headers[name] = value;
+                }
+        }
+        return { baseUrl, headers };
+}
+
+/**
+ * An agent with its own endpoint only ever uses the key registered for that
+ * endpoint, so a vendor key is never sent to a third-party gateway.
+ */
+export function keyForAgent(agent: MagiAgent, keys?: ProviderKeyMap): string | undefined {
+        if (agent.base_url) return keys?.endpoints?.[agent.slug] || undefined;
+        const adapter = getProviderAdapter(agent.provider);
+        return adapter ? keyForProvider(adapter, keys) : undefined;
+}
+
+/** The agent's own provider and model first, then its configured fallbacks. */
+export function failoverChain(agent: MagiAgent): MagiAgentRoute[] {
+        const fallbacks = Array.isArray(agent.fallbacks) ? agent.fallbacks : [];
+        return [{ provider: agent.provider, model: agent.model }, ...fallbacks.filter((r) => r && r.provider && r.model)];
+}
+
+// Adapter timeouts are sized for short replies. A caller that raises the
+// output cap above SHORT_REPLY_TOKENS gets this much more time per token, so
+// a long reply can finish generating instead of timing out and failing over.
+const SHORT_REPLY_TOKENS = 400;
+const MS_PER_EXTRA_OUTPUT_TOKEN = 25;
+
+function callTimeoutMs(adapter: ProviderAdapter, maxOutputTokens?: number): number {
+        const extraTokens = Math.max(0, (maxOutputTokens ?? SHORT_REPLY_TOKENS) - SHORT_REPLY_TOKENS);
+        return adapter.timeoutMs + extraTokens * MS_PER_EXTRA_OUTPUT_TOKEN;
+}
+
+/**
+ * Run `call` with its own AbortSignal, aborting it after `ms` or as soon as
+ * `parent` aborts, so a timed-out or cancelled request stops its fetches and
+ * tool loop instead of running on in the background. `call` can push the
+ * deadline back with `extend`, which keeps retry waits off the clock.
+ */
+async function withTimeout<T>(
+        call: (signal: AbortSignal, extend: (ms: number) => void) => Promise<T>,
+        ms: number,
+        provider: ProviderName,
+        parent?: AbortSignal
+): Promise<T> {
+        parent?.throwIfAborted();
+        const controller = new AbortController();
+        const timeoutError = new ProviderRequestError(`${provider} timeout after ${ms}ms`, provider, null, true);
+        let deadline = Date.now() + ms;
+        let id = setTimeout(() => controller.abort(timeoutError), ms);
+        const extend = (extra: number) => {
+                if (controller.signal.aborted) return;
+                deadline += extra;
+                clearTimeout(id);
+                id = setTimeout(() => controller.abort(timeoutError), Math.max(0, deadline - Date.now()));
+        };
+        const onParentAbort = () => controller.abort(parent?.reason);
+        parent?.addEventListener("abort", onParentAbort, { once: true });
+        try {
+                return await call(controller.signal, extend);
+        } catch (err) {
+                // fetch rejects with a generic AbortError; surface why we aborted.
+                if (controller.signal.aborted) throw controller.signal.reason;
+                throw err;
+        } finally {
+                clearTimeout(id);
+                parent?.removeEventListener("abort", onParentAbort);
+        }
+}
+
+export async function agentChat(
+        agent: MagiAgent,
+        keys: ProviderKeyMap | undefined,
+        messages: ChatTurn[],
+        options?: AgentChatOptions
+): Promise<AgentChatResult> {
+        const failover: MagiFailoverAttempt[] = [];
+        let lastError: Error | null = null;
+
+        for (const [index, route] of failoverChain(agent).entries()) {
+                const adapter = getProviderAdapter(route.provider);
+                if (!adapter) {
+                        lastError = new Error(`Unknown provider ${route.provider}`);
+                        if (index === 0) break;
+                        continue;
+                }
+                // Only the agent's own route goes to its custom endpoint;
+                // fallbacks use their providers' public APIs.
+                const endpoint = index === 0 ? agentEndpoint(agent) : null;
+                if (endpoint && !adapter.customEndpoints) {
+                        lastError = new Error(`${adapter.label} does not support a custom base_url`);
+                        break;
+                }
+                const model = canonicalModelFor(route.provider, route.model);
+                // Keyless endpoints (a local llama.cpp server) are called without auth.
+                const apiKey = endpoint ? keyForAgent(agent, keys) ?? "" : keyForProvider(adapter, keys);
+                if (apiKey === undefined) {
+                        lastError = new Error(`Missing key for ${route.provider}`);
+                        // The agent's own provider has always required a key;
+                        // a fallback without one is simply passed over.
+                        if (index === 0) break;
+                        failover.push({ provider: route.provider, model, error: lastError.message });
+                        continue;
+                }
+                try {
+                        const result = await withTimeout(
+                                (signal, extend) =>
+                                        adapter.chat({
+                                                apiKey,
+                                                model,
+                                                messages,
+                                                userLabel: agent.slug,
+                                                enableHttpTool: options?.enableHttpTool ?? false,
+                                                onDelta: options?.onDelta,
+                                                onToolCall: options?.onToolCall,
+                                                // The wait before a retry does not count toward the timeout.
+                                                onRetry: (attempt) => {
+                                                        extend(attempt.delayMs);
+                                                        options?.onRetry?.(attempt);
+                                                },
+                                                maxOutputTokens: options?.maxOutputTokens,
+                                                beforeTurn: options?.beforeTurn,
+                                                onTurnUsage: (usage) => options?.onTurnUsage?.(usage, model),
+                                                signal,
+                                                endpoint: endpoint ?? undefined,
+                                        }),
+                                callTimeoutMs(adapter, options?.maxOutputTokens),
+                                adapter.id,
+                                options?.signal
+                        );
+                        return {
+                                content: result.content,
+                                providerUsed: adapter.id,
+                                modelUsed: model,
+                                httpRequestCount: result.httpRequests,
+                                failover,
+                                usage: result.usage,
+                        };
+                } catch (err: any) {
+                        lastError = err instanceof Error ? err : new Error(String(err));
+                        if (options?.signal?.aborted || !shouldFailover(err)) break;
+                        failover.push({ provider: route.provider, model, error: lastError.message });
+                }
+        }
+
+        throw lastError ?? new Error(`Unable to reach ${agent.name}`);
+}
@@ -0,0 +1,44 @@
+import type { MagiAbsentAgent, MagiAgent, MagiMessage, MagiWorkflowStep } from "@/lib/magiTypes";
+
+// System messages with this stage mark an agent that dropped out of a run.
+export const ABSENCE_STAGE = "absence";
+
+/**
+ * Minimum number of agents that must answer a proposal round. A missing or
+ * out-of-range setting means every agent is required, which was the only
+ * behaviour before quorum existed.
+ */
+export function resolveQuorum(raw: unknown, agentCount: number): number {
+        const parsed = typeof raw === "number" ? raw : typeof raw === "string" ? Number.parseInt(raw, 10) : NaN;
+        if (!Number.isFinite(parsed) || parsed < 1) return agentCount;
+        return Math.min(agentCount, Math.round(parsed));
+}
+
+export function absentAgents(messages: MagiMessage[]): MagiAbsentAgent[] {
+        const absent: MagiAbsentAgent[] = [];
+        for (const m of messages) {
+                if (m.role !== "system" || !m.agent_id) continue;
+                const meta = (m.meta ?? {}) as Record<string, unknown>;
+                if (meta.stage !== ABSENCE_STAGE) continue;
+                if (absent.some((a) => a.agentId === m.agent_id)) continue;
+                absent.push({
+                        agentId: m.agent_id,
+                        name: typeof meta.agentName === "string" ? meta.agentName : "Unknown agent",
+                        step: (typeof meta.step === "string" ? meta.step : "propose") as MagiWorkflowStep,
+                        round: typeof meta.round === "number" ? meta.round : 1,
+                        reason: typeof meta.reason === "string" ? meta.reason : "no response",
+                });
+        }
+        return absent;
+}
+
+export function presentAgents(agents: MagiAgent[], absent: MagiAbsentAgent[]): MagiAgent[] {
+        return agents.filter((a) => !absent.some((x) => x.agentId === a.id));
+}
+
+export function formatAbsenceNote(absent: MagiAbsentAgent[], totalAgents: number): string {
+        if (absent.length === 0) return "";
+        const present = totalAgents - absent.length;
+        const who = absent.map((a) => `${a.name} (round ${a.round} ${a.step}: ${a.reason})`).join("; ");
+        return `Quorum consensus from ${present} of ${totalAgents} agents. Missing: ${who}.`;
+}
@@ -1,12 +1,26 @@
 import { getSupabaseServer } from "@/lib/supabaseClient";
+import { sessionRoster } from "@/lib/magiRoster";
+import { sumUsageRows, totalTokens } from "@/lib/magiUsage";
 import type {
         MagiAgent,
         MagiConsensus,
+        MagiConsensusProvenance,
+        MagiFinding,
+        MagiFindingDraft,
+        MagiJob,
         MagiMessage,
         MagiMessageKind,
+        MagiPromptStage,
+        MagiPromptTemplate,
         MagiSession,
+        MagiSessionSettings,
         MagiSessionStatus,
+        MagiStepRecord,
+        MagiTokenUsage,
+        MagiUserBudget,
         MagiVote,
+        MagiVoteCriterionScore,
+        MagiWorkflowStep,
 } from "@/lib/magiTypes";
 
 export async function listAgents(): Promise<MagiAgent[]> {
@@ -19,11 +33,23 @@ export async function listAgents(): Promise<MagiAgent[]> {
         })) as unknown as MagiAgent[];
 }
 
+/**
+ * An agent as sent to the browser: extra header values can carry gateway
+ * secrets, so only their names are kept.
+ */
+export function publicAgent(agent: MagiAgent): MagiAgent {
+        if (!agent.extra_headers || typeof agent.extra_headers !== "object") return agent;
+        const extra_headers: Record<string, string> = {};
+        for (const name of Object.keys(agent.extra_headers)) extra_headers[name] = "[redacted]";
+        return { ...agent, extra_headers };
+}
+
 export async function createSession(
         userId: string,
         question: string,
         artifactId?: string | null,
-        liveUrl?: string | null
+        liveUrl?: string | null,
+        settings?: MagiSessionSettings | null
 ): Promise<MagiSession> {
         const supabase = getSupabaseServer();
         const { data, error } = await supabase
@@ -34,6 +60,7 @@ export async function createSession(
                                 question,
                                 artifact_id: artifactId ?? null,
                                 live_url: liveUrl ?? null,
+                                settings: settings ?? {},
                                 status: "running" as MagiSessionStatus,
                         },
                 ])
@@ -43,6 +70,15 @@ export async function createSession(
 	return data as unknown as MagiSession;
 }
 
+function usageColumns(usage: MagiTokenUsage | null | undefined, costUsd: number | null | undefined) {
+	return {
+		prompt_tokens: usage?.promptTokens ?? null,
+		completion_tokens: usage?.completionTokens ?? null,
+		cached_tokens: usage?.cachedTokens ?? null,
+		cost_usd: costUsd ?? null,
+	};
+}
+
 export async function addMessage(params: {
 	sessionId: string;
 	role: MagiMessageKind;
@@ -50,6 +86,8 @@ export async function addMessage(params: {
 	agentId?: string | null;
 	model?: string | null;
 	tokens?: number | null;
+	usage?: MagiTokenUsage | null;
+	costUsd?: number | null;
 	meta?: Record<string, unknown>;
 }): Promise<MagiMessage> {
 	const supabase = getSupabaseServer();
@@ -62,7 +100,8 @@ export async function addMessage(params: {
 				content: params.content,
 				agent_id: params.agentId ?? null,
 				model: params.model ?? null,
-				tokens: params.tokens ?? null,
+				tokens: params.tokens ?? (params.usage ? totalTokens(params.usage) : null),
+				...usageColumns(params.usage, params.costUsd),
 				meta: params.meta ?? {},
 			},
 		])
@@ -78,6 +117,10 @@ export async function addVote(params: {
 	targetMessageId: number;
 	score: number;
 	rationale?: string | null;
+	criteria?: MagiVoteCriterionScore[] | null;
+	usage?: MagiTokenUsage | null;
+	costUsd?: number | null;
+	meta?: Record<string, unknown> | null;
 }): Promise<MagiVote> {
 	const supabase = getSupabaseServer();
 	const { data, error } = await supabase
@@ -89,6 +132,10 @@ export async function addVote(params: {
 				target_message_id: params.targetMessageId,
 				score: params.score,
 				rationale: params.rationale ?? null,
+				criteria: params.criteria ?? null,
+				meta: params.meta ?? {},
+				tokens: params.usage ? totalTokens(params.usage) : null,
+				...usageColumns(params.usage, params.costUsd),
 			},
 		])
 		.select("*")
@@ -97,12 +144,43 @@ export async function addVote(params: {
 	return data as unknown as MagiVote;
 }
 
+/** Store the validated findings extracted from one proposal or revision message. */
+export async function addFindings(params: {
+	sessionId: string;
+	messageId: number;
+	agentId: string | null;
+	round: number;
+	findings: MagiFindingDraft[];
+}): Promise<MagiFinding[]> {
+	if (params.findings.length === 0) return [];
+	const supabase = getSupabaseServer();
+	const { data, error } = await supabase
+		.from("magi_findings")
+		.insert(
+			params.findings.map((finding) => ({
+				session_id: params.sessionId,
+				message_id: params.messageId,
+				agent_id: params.agentId,
+				round: params.round,
+				...finding,
+			}))
+		)
+		.select("*");
+	if (error) throw error;
+	return (data || []) as unknown as MagiFinding[];
+}
+
+/**
+ * Set a session's status. A cancelled session stays cancelled, so a stage
+ * that finishes after the cancel cannot report consensus or an error over it.
+ */
 export async function setSessionStatus(sessionId: string, status: MagiSessionStatus, errorText?: string | null) {
 	const supabase = getSupabaseServer();
 	const { error } = await supabase
 		.from("magi_sessions")
 		.update({ status, error: errorText ?? null })
-		.eq("id", sessionId);
+		.eq("id", sessionId)
+		.neq("status", "cancelled");
 	if (error) throw error;
 }
 
@@ -110,6 +188,7 @@ export async function upsertConsensus(params: {
 	sessionId: string;
 	finalMessageId: number | null;
 	summary?: string | null;
+	provenance?: MagiConsensusProvenance | null;
 }): Promise<MagiConsensus> {
 	const supabase = getSupabaseServer();
 	const { data, error } = await supabase
@@ -118,6 +197,7 @@ export async function upsertConsensus(params: {
 			session_id: params.sessionId,
 			final_message_id: params.finalMessageId,
 			summary: params.summary ?? null,
+			provenance: params.provenance ?? null,
 		})
 		.select("*")
 		.single();
@@ -125,28 +205,274 @@ export async function upsertConsensus(params: {
 	return data as unknown as MagiConsensus;
 }
 
+export async function getJob(sessionId: string): Promise<MagiJob | null> {
+        const supabase = getSupabaseServer();
+        const { data, error } = await supabase.from("magi_jobs").select("*").eq("session_id", sessionId).maybeSingle();
+        if (error) throw error;
+        return (data || null) as unknown as MagiJob | null;
+}
+
+export async function saveJob(
+        sessionId: string,
+        patch: Partial<Omit<MagiJob, "session_id" | "created_at" | "updated_at">>
+): Promise<MagiJob> {
+        const supabase = getSupabaseServer();
+        const { data, error } = await supabase
+                .from("magi_jobs")
+                .upsert({ session_id: sessionId, ...patch, updated_at: new Date().toISOString() })
+                .select("*")
+                .single();
+        if (error) throw error;
+        return data as unknown as MagiJob;
+}
+
+/**
+ * Mark a session's job running, but only if it is still the row `seen` (or
+ * still missing when `seen` is null). Returns null when another caller
+ * claimed or changed the job first, so two concurrent starts cannot both win.
+ */
+export async function claimJob(
+        sessionId: string,
+        seen: MagiJob | null,
+        patch: Partial<Omit<MagiJob, "session_id" | "status" | "heartbeat_at" | "created_at" | "updated_at">>
+): Promise<MagiJob | null> {
+        const supabase = getSupabaseServer();
+        const row = { ...patch, status: "running", heartbeat_at: new Date().toISOString(), updated_at: new Date().toISOString() };
+        if (!seen) {
+                const { data, error } = await supabase
+                        .from("magi_jobs")
+                        .insert([{ session_id: sessionId, ...row }])
+                        .select("*")
+                        .single();
+                if (!error) return data as unknown as MagiJob;
+                if (error.code === "23505") return null;
+                throw error;
+        }
+        const { data, error } = await supabase
+                .from("magi_jobs")
+                .update(row)
+                .eq("session_id", sessionId)
+                .eq("status", seen.status)
+                .eq("heartbeat_at", seen.heartbeat_at)
+                .select("*");
+        if (error) throw error;
+        const rows = (data || []) as unknown as MagiJob[];
+        return rows[0] ?? null;
+}
+
+/** Refresh a running job's heartbeat; a job that has since stopped is left alone. */
+export async function touchJobHeartbeat(sessionId: string): Promise<void> {
+        const supabase = getSupabaseServer();
+        const { error } = await supabase
+                .from("magi_jobs")
+                .update({ heartbeat_at: new Date().toISOString() })
+                .eq("session_id", sessionId)
+                .eq("status", "running");
+        if (error) throw error;
+}
+
+export async function listSteps(sessionId: string): Promise<MagiStepRecord[]> {
+        const supabase = getSupabaseServer();
+        const { data, error } = await supabase
+                .from("magi_steps")
+                .select("*")
+                .eq("session_id", sessionId)
+                .order("started_at", { ascending: true });
+        if (error) throw error;
+        return (data || []) as unknown as MagiStepRecord[];
+}
+
+/**
+ * Claim the ledger slot for (session, step, round). A slot that failed, or
+ * whose runner stopped before `staleBefore`, can be claimed again; a slot
+ * held by a live runner or already complete returns null. The unique
+ * constraint on the table is what keeps concurrent claims from both winning.
+ */
+export async function claimStep(
+        sessionId: string,
+        step: MagiWorkflowStep,
+        round: number,
+        staleBefore: Date
+): Promise<MagiStepRecord | null> {
+        const supabase = getSupabaseServer();
+        const { data, error } = await supabase
+                .from("magi_steps")
+                .insert([{ session_id: sessionId, step, round, status: "running" }])
+                .select("*")
+                .single();
+        if (!error) return data as unknown as MagiStepRecord;
+        if (error.code !== "23505") throw error;
+
+        const { data: existing, error: fetchError } = await supabase
+                .from("magi_steps")
+                .select("*")
+                .eq("session_id", sessionId)
+                .eq("step", step)
+                .eq("round", round)
+                .maybeSingle();
+        if (fetchError) throw fetchError;
+        const current = existing as unknown as MagiStepRecord | null;
+        if (!current) return null;
+        const stale = current.status === "running" && new Date(current.started_at).getTime() < staleBefore.getTime();
+        if (current.status !== "failed" && !stale) return null;
+
+        const { data: reclaimed, error: reclaimError } = await supabase
+                .from("magi_steps")
+                .update({ status: "running", error: null, result: null, started_at: new Date().toISOString(), completed_at: null })
+                .eq("id", current.id)
+                .eq("status", current.status)
+                .eq("started_at", current.started_at)
+                .select("*");
+        if (reclaimError) throw reclaimError;
+        const rows = (reclaimed || []) as unknown as MagiStepRecord[];
+        return rows[0] ?? null;
+}
+
+export async function updateStep(
+        id: number,
+        patch: Partial<Pick<MagiStepRecord, "status" | "result" | "error" | "started_at" | "completed_at">>
+): Promise<void> {
+        const supabase = getSupabaseServer();
+        const { error } = await supabase.from("magi_steps").update(patch).eq("id", id);
+        if (error) throw error;
+}
+
+/** Everything stored for a session; `agents` is the session's roster. */
 export async function getSessionFull(sessionId: string): Promise<{
 	session: MagiSession | null;
 	messages: MagiMessage[];
 	votes: MagiVote[];
+	findings: MagiFinding[];
 	consensus: MagiConsensus | null;
 	agents: MagiAgent[];
+	job: MagiJob | null;
 }> {
 	const supabase = getSupabaseServer();
-	const [{ data: session }, { data: messages }, { data: votes }, { data: consensus }, agents] = await Promise.all([
+	const [{ data: session }, { data: messages }, { data: votes }, { data: findings }, { data: consensus }, agents, { data: job }] = await Promise.all([
 		supabase.from("magi_sessions").select("*").eq("id", sessionId).single(),
 		supabase.from("magi_messages").select("*").eq("session_id", sessionId).order("created_at", { ascending: true }),
 		supabase.from("magi_votes").select("*").eq("session_id", sessionId).order("created_at", { ascending: true }),
+		supabase.from("magi_findings").select("*").eq("session_id", sessionId).order("id", { ascending: true }),
 		supabase.from("magi_consensus").select("*").eq("session_id", sessionId).maybeSingle(),
 		listAgents(),
+		supabase.from("magi_jobs").select("*").eq("session_id", sessionId).maybeSingle(),
 	]);
 	return {
 		session: (session || null) as unknown as MagiSession | null,
 		messages: (messages || []) as unknown as MagiMessage[],
 		votes: (votes || []) as unknown as MagiVote[],
+		findings: (findings || []) as unknown as MagiFinding[],
 		consensus: (consensus || null) as unknown as MagiConsensus | null,
-		agents,
+		agents: sessionRoster(agents, (session as MagiSession | null)?.settings),
+		job: (job || null) as unknown as MagiJob | null,
+	};
+}
+
+export async function getUserBudget(userId: string): Promise<MagiUserBudget | null> {
+	const supabase = getSupabaseServer();
+	const { data, error } = await supabase.from("magi_user_budgets").select("*").eq("user_id", userId).maybeSingle();
+	if (error) throw error;
+	return (data || null) as unknown as MagiUserBudget | null;
+}
+
+export async function saveUserBudget(
+	userId: string,
+	patch: Partial<Omit<MagiUserBudget, "user_id" | "updated_at">>
+): Promise<MagiUserBudget> {
+	const supabase = getSupabaseServer();
+	const { data, error } = await supabase
+		.from("magi_user_budgets")
+		.upsert([{ user_id: userId, ...patch, updated_at: new Date().toISOString() }], { onConflict: "user_id" })
+		.select("*")
+		.single();
+	if (error) throw error;
+	return data as unknown as MagiUserBudget;
+}
+
+/** Tokens and cost recorded on messages and votes across a user's sessions, optionally since a timestamp. */
+export async function sumUserUsage(userId: string, since?: string): Promise<{ tokens: number; costUsd: number }> {
+	const supabase = getSupabaseServer();
+	const { data: sessions, error } = await supabase.from("magi_sessions").select("id").eq("user_id", userId);
+	if (error) throw error;
+	const ids = (sessions || []).map((s) => s.id as string);
+	if (ids.length === 0) return { tokens: 0, costUsd: 0 };
+	const scoped = (table: "magi_messages" | "magi_votes") => {
+		const query = supabase.from(table).select("tokens, cost_usd").in("session_id", ids);
+		return since ? query.gte("created_at", since) : query;
 	};
+	const [messages, votes] = await Promise.all([scoped("magi_messages"), scoped("magi_votes")]);
+	if (messages.error) throw messages.error;
+	if (votes.error) throw votes.error;
+	return sumUsageRows([...(messages.data || []), ...(votes.data || [])]);
+}
+
+/** Each agent's most recent votes across every session, for score calibration. */
+export async function listRecentVotes(
+	agentIds: string[],
+	limit: number
+): Promise<Pick<MagiVote, "agent_id" | "score" | "meta">[]> {
+	const supabase = getSupabaseServer();
+	const results = await Promise.all(
+		agentIds.map((agentId) =>
+			supabase
+				.from("magi_votes")
+				.select("agent_id, score, meta")
+				.eq("agent_id", agentId)
+				.order("created_at", { ascending: false })
+				.limit(limit)
+		)
+	);
+	return results.flatMap(({ data, error }) => {
+		if (error) throw error;
+		return (data || []) as unknown as Pick<MagiVote, "agent_id" | "score" | "meta">[];
+	});
+}
+
+/** Every prompt template version, newest first. */
+export async function listPromptTemplates(): Promise<MagiPromptTemplate[]> {
+	const supabase = getSupabaseServer();
+	const { data, error } = await supabase
+		.from("magi_prompt_templates")
+		.select("*")
+		.order("version", { ascending: false })
+		.order("created_at", { ascending: false });
+	if (error) throw error;
+	return (data || []) as unknown as MagiPromptTemplate[];
+}
+
+/**
+ * Store `body` as the next version for an agent (or the default when
+ * `agentId` is null). Templates are never edited in place.
+ */
+export async function createPromptTemplateVersion(params: {
+	agentId: string | null;
+	stage: MagiPromptStage;
+	body: string;
+	userId: string;
+}): Promise<MagiPromptTemplate> {
+	const supabase = getSupabaseServer();
+	let latest = supabase.from("magi_prompt_templates").select("version").eq("stage", params.stage);
+	latest = params.agentId ? latest.eq("agent_id", params.agentId) : latest.is("agent_id", null);
+	const { data: current, error: currentError } = await latest
+		.order("version", { ascending: false })
+		.limit(1)
+		.maybeSingle();
+	if (currentError) throw currentError;
+	const { data, error } = await supabase
+		.from("magi_prompt_templates")
+		.insert([
+			{
+				agent_id: params.agentId,
+				stage: params.stage,
+				version: (Number(current?.version) || 0) + 1,
+				body: params.body,
+				created_by: params.userId,
+			},
+		])
+		.select("*")
+		.single();
+	if (error) throw error;
+	return data as unknown as MagiPromptTemplate;
 }
 
 export function assertUser(userId?: string): string {
@@ -0,0 +1,80 @@
+import type { MagiAgent } from "@/lib/magiTypes";
+
+type Provider = MagiAgent["provider"];
+
+export interface RetryPolicy {
+        /** Total attempts including the first one. */
+        maxAttempts: number;
+        baseDelayMs: number;
+        /** Longest single wait; a server asking for more than this is not retried. */
+        maxDelayMs: number;
+}
+
+export interface RetryAttemptInfo {
+        provider: Provider;
+        attempt: number;
+        maxAttempts: number;
+        status: number | null;
+        delayMs: number;
+        /** Where the delay came from: a server header or our own backoff. */
+        source: "retry-after" | "anthropic-ratelimit" | "backoff";
+        reason: string;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+const ANTHROPIC_RATELIMIT_BUCKETS = ["requests", "tokens", "input-tokens", "output-tokens"];
+
+export function isRetryableStatus(status: number): boolean {
+        return RETRYABLE_STATUSES.has(status);
+}
+
+function parseRetryAfter(value: string | null, now: number): number | null {
+        if (!value) return null;
+        const seconds = Number(value.trim());
+        if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+        const at = Date.parse(value);
+        return Number.isFinite(at) ? Math.max(0, at - now) : null;
+}
+
+/**
+ * Anthropic reports one reset timestamp per rate-limit bucket. Only exhausted
+ * buckets matter, and the request can go out once the last of them resets.
+ */
+function parseAnthropicReset(headers: Headers, now: number): number | null {
+        let wait: number | null = null;
+        for (const bucket of ANTHROPIC_RATELIMIT_BUCKETS) {
+                if (headers.get(`anthropic-ratelimit-${bucket}-remaining`) !== "0") continue;
+                const reset = Date.parse(headers.get(`anthropic-ratelimit-${bucket}-reset`) ?? "");
+                if (!Number.isFinite(reset)) continue;
+                wait = Math.max(wait ?? 0, reset - now);
+        }
+        return wait === null ? null : Math.max(0, wait);
+}
+
+/**
+ * How long to wait before attempt `attempt + 1`, or null when the policy says
+ * to give up. Server hints win over backoff; backoff uses full jitter.
+ */
+export function retryDelay(
+        policy: RetryPolicy,
+        attempt: number,
+        headers: Headers | null,
+        random: () => number = Math.random,
+        now: number = Date.now()
+): { delayMs: number; source: RetryAttemptInfo["source"] } | null {
+        if (attempt >= policy.maxAttempts) return null;
+        let hinted: { delayMs: number; source: RetryAttemptInfo["source"] } | null = null;
+        if (headers) {
+                const retryAfter = parseRetryAfter(headers.get("retry-after"), now);
+                const reset = retryAfter === null ? parseAnthropicReset(headers, now) : null;
+                if (retryAfter !== null) hinted = { delayMs: retryAfter, source: "retry-after" };
+                else if (reset !== null) hinted = { delayMs: reset, source: "anthropic-ratelimit" };
+        }
+        if (hinted) {
+                if (hinted.delayMs > policy.maxDelayMs) return null;
+                return { delayMs: Math.round(hinted.delayMs + random() * policy.baseDelayMs * 0.1), source: hinted.source };
+        }
+        const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+        return { delayMs: Math.round(random() * ceiling), source: "backoff" };
+}
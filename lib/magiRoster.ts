@@ -0,0 +1,48 @@
+import type { MagiAgent, MagiSessionSettings } from "@/lib/magiTypes";
+
+// Critique and voting need at least one peer to look at each proposal.
+export const MIN_ROSTER_SIZE = 2;
+
+/** De-duplicated agent ids in the order given, or null when none were chosen. */
+export function normalizeRosterIds(raw: unknown): string[] | null {
+        if (!Array.isArray(raw)) return null;
+        const ids: string[] = [];
+        for (const value of raw) {
+                if (typeof value !== "string") continue;
+                const id = value.trim();
+                if (id && !ids.includes(id)) ids.push(id);
+        }
+        return ids.length > 0 ? ids : null;
+}
+
+/**
+ * The agents taking part in a session. Sessions without a roster, including
+ * every session created before rosters existed, use all of `magi_agents`.
+ */
+export function sessionRoster(agents: MagiAgent[], settings?: MagiSessionSettings | null): MagiAgent[] {
+        const ids = normalizeRosterIds(settings?.agentIds);
+        if (!ids) return agents;
+        return ids.map((id) => agents.find((a) => a.id === id)).filter((a): a is MagiAgent => Boolean(a));
+}
+
+/** Why `ids` cannot be used as a roster, or null when every id is known and there are enough. */
+export function rosterError(agents: MagiAgent[], ids: string[] | null): string | null {
+        const roster = ids ?? agents.map((a) => a.id);
+        const unknown = roster.filter((id) => !agents.some((a) => a.id === id));
+        if (unknown.length > 0) return `Unknown agent ${unknown.join(", ")}`;
+        if (roster.length < MIN_ROSTER_SIZE) return `Pick at least ${MIN_ROSTER_SIZE} agents`;
+        return null;
+}
+
+// The operator's roster pick, kept in localStorage so the node view and the
+// run controls agree on it.
+export const ROSTER_STORAGE_KEY = "magi_roster_agent_ids";
+
+export function parseStoredRoster(raw: string | null): string[] | null {
+        if (!raw) return null;
+        try {
+                return normalizeRosterIds(JSON.parse(raw));
+        } catch {
+                return null;
+        }
+}
@@ -0,0 +1,96 @@
+import type { MagiRubricCriterion, MagiVoteCriterionScore } from "@/lib/magiTypes";
+
+export const DEFAULT_RUBRIC: MagiRubricCriterion[] = [
+        { id: "correctness", label: "Correctness", description: "Findings are technically accurate", weight: 35 },
+        { id: "evidence", label: "Evidence", description: "Claims cite code, responses or other specifics", weight: 25 },
+        { id: "severity", label: "Severity accuracy", description: "Risk levels are neither inflated nor played down", weight: 20 },
+        { id: "actionability", label: "Actionability", description: "Remediation steps are concrete and workable", weight: 20 },
+];
+
+const MAX_CRITERIA = 8;
+
+function criterionId(raw: string): string {
+        return raw
+                .trim()
+                .toLowerCase()
+                .replace(/[^a-z0-9]+/g, "_")
+                .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * A usable rubric from session settings: snake_case ids, positive weights, at
+ * most MAX_CRITERIA entries. Anything unusable falls back to DEFAULT_RUBRIC.
+ */
+export function normalizeRubric(raw: unknown): MagiRubricCriterion[] {
+        if (!Array.isArray(raw)) return DEFAULT_RUBRIC;
+        const rubric: MagiRubricCriterion[] = [];
+        for (const item of raw) {
+                if (!item || typeof item !== "object" || Array.isArray(item)) continue;
+                const entry = item as Record<string, unknown>;
+                const id = criterionId(String(entry.id ?? entry.label ?? ""));
+                const weight = Number(entry.weight);
+                if (!id || !Number.isFinite(weight) || weight <= 0 || rubric.some((c) => c.id === id)) continue;
+                const known = DEFAULT_RUBRIC.find((c) => c.id === id);
+                const rawLabel = typeof entry.label === "string" ? entry.label.trim() : "";
+                const label = rawLabel || known?.label || id;
+                const description = typeof entry.description === "string" ? entry.description.trim() : known?.description ?? "";
+                rubric.push({ id, label, description, weight });
+                if (rubric.length === MAX_CRITERIA) break;
+        }
+        return rubric.length > 0 ? rubric : DEFAULT_RUBRIC;
+}
+
+/** Parse the compact `id:weight, id:weight` form used by the run controls. */
+export function parseRubricText(text: string): MagiRubricCriterion[] | null {
+        const entries = text
+                .split(",")
+                .map((part) => part.trim())
+                .filter(Boolean)
+                .map((part) => {
+                        const [name, weight] = part.split(":");
+                        return { id: name, weight: weight === undefined ? 1 : Number(weight) };
+                });
+        if (entries.length === 0) return null;
+        const rubric = normalizeRubric(entries);
+        return rubric === DEFAULT_RUBRIC ? null : rubric;
+}
+
+export function formatRubricText(rubric: MagiRubricCriterion[]): string {
+        return rubric.map((c) => `${c.id}:${c.weight}`).join(", ");
+}
+
+/** The scoring instructions and reply format rendered into the vote prompt as {{rubric}}. */
+export function formatRubricInstructions(rubric: MagiRubricCriterion[]): string {
+        const lines = rubric.map((c) => `- ${c.id}: ${c.label}${c.description ? ` (${c.description})` : ""}`);
+        const example = rubric.map((c) => `"${c.id}": 0-100`).join(", ");
+        return `Score each criterion from 0 to 100:\n${lines.join("\n")}\n\nReply ONLY with a JSON object: {"scores": {${example}}, "reason": "detailed rationale"}.`;
+}
+
+function readScore(value: unknown): number | null {
+        const parsed = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+        return Number.isFinite(parsed) ? Math.max(0, Math.min(100, Math.round(parsed))) : null;
+}
+
+/**
+ * Per-criterion scores from a parsed vote reply. Scores may sit under
+ * `scores` or at the top level; a criterion left out takes the reply's single
+ * `score` when there is one. Returns null when nothing usable was given.
+ */
+export function readRubricScores(parsed: Record<string, unknown>, rubric: MagiRubricCriterion[]): MagiVoteCriterionScore[] | null {
+        const scores = parsed.scores && typeof parsed.scores === "object" ? (parsed.scores as Record<string, unknown>) : {};
+        const overall = readScore(parsed.score);
+        const criteria: MagiVoteCriterionScore[] = [];
+        for (const c of rubric) {
+                const score = readScore(scores[c.id] ?? parsed[c.id]) ?? overall;
+                if (score === null) return null;
+                criteria.push({ id: c.id, label: c.label, weight: c.weight, score });
+        }
+        return criteria;
+}
+
+/** Weighted mean of the criterion scores, on the same 0–100 scale as a plain vote. */
+export function weightedRubricTotal(criteria: MagiVoteCriterionScore[]): number {
+        const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+        if (totalWeight <= 0) return 0;
+        return Math.round(criteria.reduce((sum, c) => sum + c.weight * c.score, 0) / totalWeight);
+}
@@ -0,0 +1,156 @@
+import { claimJob, getJob, saveJob, setSessionStatus, touchJobHeartbeat } from "@/lib/magiRepo";
+import { isJobResumable, JOB_HEARTBEAT_INTERVAL_MS } from "@/lib/magiJobs";
+import { runWorkflowStep, type WorkflowStepResult } from "@/lib/magiWorkflow";
+import type { ProviderKeyMap } from "@/lib/magiProviders";
+import type { MagiJob, MagiSessionStatus, MagiStepDiagnostics, MagiWorkflowStep } from "@/lib/magiTypes";
+
+export type StartJobResult =
+        | { started: true; job: MagiJob }
+        | { started: false; job: MagiJob; reason: string };
+
+export type CancelJobResult = { cancelled: true; job: MagiJob | null } | { cancelled: false; reason: string };
+
+// Abort handles for the runs driven by this process, keyed by session id.
+const globalRuns = globalThis as typeof globalThis & { __magiRunControllers?: Map<string, AbortController> };
+const runControllers = globalRuns.__magiRunControllers ?? (globalRuns.__magiRunControllers = new Map());
+// Abort handles for steps run through the step route, keyed by session id.
+const globalSteps = globalThis as typeof globalThis & { __magiStepControllers?: Map<string, Set<AbortController>> };
+const stepControllers =
+        globalSteps.__magiStepControllers ?? (globalSteps.__magiStepControllers = new Map<string, Set<AbortController>>());
+
+function heartbeat() {
+        return new Date().toISOString();
+}
+
+/**
+ * Walk the workflow from `firstStep`, persisting progress after every stage so
+ * a stalled run can pick up from the last completed one. The heartbeat keeps
+ * ticking while a step runs, however long its provider calls take. Never
+ * throws: failures are recorded on the job and the session instead.
+ */
+async function driveSessionJob(sessionId: string, firstStep: MagiWorkflowStep, keys: ProviderKeyMap) {
+        let step: MagiWorkflowStep | null = firstStep;
+        const controller = new AbortController();
+        runControllers.set(sessionId, controller);
+        try {
+                while (step) {
+                        controller.signal.throwIfAborted();
+                        await saveJob(sessionId, { current_step: step, heartbeat_at: heartbeat() });
+                        const pulse = setInterval(() => {
+                                touchJobHeartbeat(sessionId).catch(() => {});
+                        }, JOB_HEARTBEAT_INTERVAL_MS);
+                        let result: WorkflowStepResult;
+                        try {
+                                result = await runWorkflowStep(sessionId, step, keys, controller.signal);
+                        } finally {
+                                clearInterval(pulse);
+                        }
+                        const payload = result.payload;
+                        // Another driver holds this step; the run is theirs to finish.
+                        if (result.status === 409 && payload.inProgress === true) return;
+                        if (!payload.ok) {
+                                throw new Error(typeof payload.error === "string" ? payload.error : `Step ${step} failed`);
+                        }
+                        if (step === "consensus" && typeof payload.finalMessageId !== "number") {
+                                throw new Error("No proposals available for consensus");
+                        }
+                        const next = typeof payload.next === "string" ? (payload.next as MagiWorkflowStep) : null;
+                        const diagnostics = (payload.diagnostics as MagiStepDiagnostics | undefined) ?? null;
+                        await saveJob(sessionId, {
+                                last_completed_step: step,
+                                current_step: next,
+                                next_step: next,
+                                round: diagnostics?.round ?? 1,
+                                diagnostics,
+                                heartbeat_at: heartbeat(),
+                        });
+                        step = next;
+                }
+                controller.signal.throwIfAborted();
+                await saveJob(sessionId, { status: "complete", current_step: null, heartbeat_at: heartbeat() });
+        } catch (err: any) {
+                // A cancelled run was already marked by cancelSessionJob.
+                if (controller.signal.aborted) return;
+                const message = err?.message || "Run failed";
+                await saveJob(sessionId, { status: "error", error: message, heartbeat_at: heartbeat() }).catch(() => {});
+                await setSessionStatus(sessionId, "error", message).catch(() => {});
+        } finally {
+                if (runControllers.get(sessionId) === controller) runControllers.delete(sessionId);
+        }
+}
+
+/**
+ * Run a single step on behalf of the step route. Its abort handle is
+ * registered like a job's, so cancelSessionJob stops its provider and HTTP
+ * relay calls too.
+ */
+export async function runSessionStep(
+        sessionId: string,
+        step: MagiWorkflowStep,
+        keys: ProviderKeyMap
+): Promise<WorkflowStepResult> {
+        const controller = new AbortController();
+        const controllers = stepControllers.get(sessionId) ?? new Set<AbortController>();
+        controllers.add(controller);
+        stepControllers.set(sessionId, controllers);
+        try {
+                return await runWorkflowStep(sessionId, step, keys, controller.signal);
+        } finally {
+                controllers.delete(controller);
+                if (controllers.size === 0 && stepControllers.get(sessionId) === controllers) stepControllers.delete(sessionId);
+        }
+}
+
+/**
+ * Start (or resume) the server-side run for a session. The pipeline keeps
+ * executing in the background after this resolves; callers observe progress
+ * through the persisted job row.
+ */
+export async function startSessionJob(sessionId: string, keys: ProviderKeyMap): Promise<StartJobResult> {
+        const existing = await getJob(sessionId);
+        if (existing?.status === "complete") {
+                return { started: false, job: existing, reason: "Run already complete" };
+        }
+        if (existing?.status === "cancelled") {
+                return { started: false, job: existing, reason: "Run was cancelled" };
+        }
+        // A run this process is driving is live even when its heartbeat lags.
+        if (existing && (runControllers.has(sessionId) || !isJobResumable(existing))) {
+                return { started: false, job: existing, reason: "Run already in progress" };
+        }
+        const firstStep: MagiWorkflowStep = existing?.next_step ?? "propose";
+        const job = await claimJob(sessionId, existing, { current_step: firstStep, next_step: firstStep, error: null });
+        if (!job) {
+                const current = await getJob(sessionId);
+                if (current) return { started: false, job: current, reason: "Run already in progress" };
+                throw new Error("Run could not be started");
+        }
+        await setSessionStatus(sessionId, "running");
+        void driveSessionJob(sessionId, firstStep, keys);
+        return { started: true, job };
+}
+
+/**
+ * Stop a session's run: mark the session and job cancelled, then abort the
+ * in-flight provider and HTTP relay calls of any job or step this process is
+ * running for it.
+ */
+export async function cancelSessionJob(sessionId: string, status: MagiSessionStatus): Promise<CancelJobResult> {
+        if (["consensus", "approved", "rejected", "deadlocked", "complete", "cancelled"].includes(status)) {
+                return { cancelled: false, reason: `Session is already ${status}` };
+        }
+        await setSessionStatus(sessionId, "cancelled", "Cancelled by operator");
+        const existing = await getJob(sessionId);
+        const job = existing
+                ? await saveJob(sessionId, {
+                          status: "cancelled",
+                          current_step: null,
+                          error: "Cancelled by operator",
+                          heartbeat_at: heartbeat(),
+                  })
+                : null;
+        const reason = new Error("Run cancelled by operator");
+        runControllers.get(sessionId)?.abort(reason);
+        stepControllers.get(sessionId)?.forEach((controller) => controller.abort(reason));
+        return { cancelled: true, job };
+}
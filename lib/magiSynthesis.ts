@@ -0,0 +1,66 @@
+import type { MagiAgent, MagiConsensusPoint, MagiMessage } from "@/lib/magiTypes";
+
+export interface WeightedProposal {
+        message: MagiMessage;
+        author: MagiAgent | null;
+        score: number;
+}
+
+export function buildSynthesisPrompt(
+        synthesizer: MagiAgent,
+        question: string,
+        proposals: WeightedProposal[]
+): { system: string; user: string } {
+        const total = proposals.reduce((sum, p) => sum + Math.max(0, p.score), 0);
+        const ranked = proposals.slice().sort((a, b) => b.score - a.score);
+        const blocks = ranked.map((p) => {
+                const share = total > 0 ? Math.round((Math.max(0, p.score) / total) * 100) : Math.round(100 / ranked.length);
+                const author = p.author ? ` by ${p.author.name}` : "";
+                return `Proposal #${p.message.id}${author} (vote total ${p.score}, weight ${share}%):\n${p.message.content.trim()}`;
+        });
+        const system = [
+                `You are ${synthesizer.name}, acting as the MAGI consensus synthesizer.`,
+                "Merge the proposals below into one security audit report.",
+                "Give higher-weighted proposals more influence, but keep any valid finding from lower-weighted proposals rather than discarding it.",
+                "Drop claims that contradict better-supported proposals.",
+                "Write the report as a numbered list, one point per line.",
+                "End every point with the proposal IDs it draws on in square brackets, for example [#12, #15].",
+                "Keep it under 250 words.",
+        ].join(" ");
+        const user = `Question:\n${question}\n\n${blocks.join("\n\n")}\n\nWrite the merged report.`;
+        return { system, user };
+}
+
+const CITATION_GROUP = /\[([^\]]*#\d+[^\]]*)\]/g;
+
+/**
+ * Split a synthesized report into numbered points and pull the proposal IDs
+ * each one cites. Citations to IDs outside `validIds` are dropped, and lines
+ * that are not list items are folded into the preceding point.
+ */
+export function parseSynthesisPoints(text: string, validIds: Set<number>): MagiConsensusPoint[] {
+        const points: { text: string; sourceMessageIds: number[] }[] = [];
+        for (const rawLine of text.split(/\r?\n/)) {
+                const line = rawLine.trim();
+                if (!line) continue;
+                const isItem = /^(\d+[.)]|[-*•])\s+/.test(line);
+                const cited: number[] = [];
+                for (const group of line.matchAll(CITATION_GROUP)) {
+                        for (const ref of group[1].matchAll(/#(\d+)/g)) {
+                                const id = Number.parseInt(ref[1], 10);
+                                if (validIds.has(id) && !cited.includes(id)) cited.push(id);
+                        }
+                }
+                const body = line.replace(/^(\d+[.)]|[-*•])\s+/, "");
+                if (isItem || points.length === 0) {
+                        points.push({ text: body, sourceMessageIds: cited });
+                } else {
+                        const last = points[points.length - 1];
+                        last.text = `${last.text} ${body}`;
+                        for (const id of cited) {
+                                if (!last.sourceMessageIds.includes(id)) last.sourceMessageIds.push(id);
+                        }
+                }
+        }
+        return points.map((p, i) => ({ index: i + 1, text: p.text, sourceMessageIds: p.sourceMessageIds }));
+}
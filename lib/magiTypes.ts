@@ -1,17 +1,128 @@
-export type MagiSessionStatus = "pending" | "running" | "consensus" | "complete" | "error";
+export type MagiSessionStatus =
+        | "pending"
+        | "running"
+        | "consensus"
+        | "approved"
+        | "rejected"
+        | "deadlocked"
+        | "complete"
+        | "error"
+        | "cancelled";
 
 export type MagiMessageKind = "user" | "agent_proposal" | "agent_critique" | "system" | "consensus";
 
+/** Keys of the adapter registry in lib/providers. */
+export type MagiProviderId = "openai" | "anthropic" | "grok" | "gemini" | "mistral";
+
+export interface MagiAgentRoute {
+	provider: MagiProviderId;
+	model: string | null;
+}
+
 export interface MagiAgent {
 	id: string;
-	slug: "casper" | "balthasar" | "melchior";
+	slug: string;
 	name: string;
-	provider: "openai" | "anthropic" | "grok";
+	provider: MagiProviderId;
 	model: string | null;
+	/** Routes tried in order when the primary provider times out or returns 5xx. */
+	fallbacks?: MagiAgentRoute[] | null;
+	/** OpenAI-compatible API root used instead of the provider's own, e.g. a vLLM server. */
+	base_url?: string | null;
+	/** Extra headers for `base_url`; `{{key}}` in a value is replaced by the endpoint key. */
+	extra_headers?: Record<string, string> | null;
 	color: string | null;
 	created_at: string;
 }
 
+export interface MagiFailoverAttempt {
+	provider: MagiAgentRoute["provider"];
+	model: string;
+	error: string;
+}
+
+export type MagiConsensusMode = "select" | "synthesize";
+
+export interface MagiRubricCriterion {
+        id: string;
+        label: string;
+        description: string;
+        /** Relative weight in the vote total. */
+        weight: number;
+}
+
+export interface MagiVoteCriterionScore {
+        id: string;
+        label: string;
+        weight: number;
+        score: number;
+}
+
+export type MagiVotingScheme = "sum" | "mean" | "median" | "borda" | "condorcet";
+
+export type MagiVerdictChoice = "approve" | "reject" | "abstain";
+
+/**
+ * `majority`: more than half the roster must approve (or reject).
+ * `unanimity`: every agent must approve, and a single reject vetoes.
+ */
+export type MagiVerdictRule = "majority" | "unanimity";
+
+export type MagiVerdictOutcome = "approved" | "rejected" | "deadlocked";
+
+export interface MagiVerdictSettings {
+        /** The statement each agent approves or rejects, e.g. "this release is safe to ship". */
+        proposition: string;
+        rule: MagiVerdictRule;
+}
+
+/** How each agent's vote scores are rescaled before tallying. */
+export type MagiScoreCalibration = "none" | "session" | "history";
+
+/** A spend cap; either bound may be left unset. */
+export interface MagiBudgetLimit {
+        maxTokens?: number | null;
+        maxCostUsd?: number | null;
+}
+
+export type MagiBudgetScope = "session" | "user" | "daily";
+
+export interface MagiUserBudget {
+        user_id: string;
+        max_tokens: number | null;
+        max_cost_usd: number | null;
+        /** Applies to spend since 00:00 UTC. */
+        daily_max_tokens: number | null;
+        daily_max_cost_usd: number | null;
+        updated_at: string;
+}
+
+export interface MagiSessionSettings {
+        debateRounds?: number;
+        consensusMode?: MagiConsensusMode;
+        synthesizerAgentId?: string | null;
+        proposalConcurrency?: number;
+        /** Ids of the `magi_agents` taking part, in order; unset means all of them. */
+        agentIds?: string[] | null;
+        /** How votes are aggregated into a winner; unset is "sum". */
+        votingScheme?: MagiVotingScheme;
+        /** Resolve the session by approve/reject/abstain on a proposition after consensus. */
+        verdict?: MagiVerdictSettings | null;
+        /** Per-agent score normalization before tallying; unset is "none". */
+        scoreCalibration?: MagiScoreCalibration;
+        /** Criteria each vote scores separately; unset uses DEFAULT_RUBRIC. */
+        rubric?: MagiRubricCriterion[] | null;
+        /** Show voters anonymized proposals under random aliases, in shuffled order. */
+        blindVoting?: boolean;
+        /** Fixes the blind-voting shuffle and aliases to reproduce an earlier run. */
+        blindSeed?: number | null;
+        /** Trust weight per agent id applied to its votes; unlisted agents weigh 1. */
+        agentWeights?: Record<string, number> | null;
+        /** Agents that must answer each proposal round; unset requires all of them. */
+        quorum?: number | null;
+        budget?: MagiBudgetLimit | null;
+}
+
 export interface MagiSession {
         id: string;
         user_id: string;
@@ -19,11 +130,21 @@ export interface MagiSession {
         artifact_id?: string | null;
         live_url?: string | null;
         status: MagiSessionStatus;
+        settings?: MagiSessionSettings | null;
         error: string | null;
         created_at: string;
         updated_at: string;
         finalMessageId?: number | null;
         consensusSummary?: string | null;
+        totalTokens?: number | null;
+        totalCostUsd?: number | null;
+}
+
+export interface MagiTokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	/** Prompt tokens served from the provider's cache; included in promptTokens. */
+	cachedTokens: number;
 }
 
 export interface MagiMessage {
@@ -33,7 +154,12 @@ export interface MagiMessage {
 	role: MagiMessageKind;
 	content: string;
 	model: string | null;
+	/** Prompt plus completion tokens across every provider turn behind the message. */
 	tokens: number | null;
+	prompt_tokens?: number | null;
+	completion_tokens?: number | null;
+	cached_tokens?: number | null;
+	cost_usd?: number | null;
 	meta: Record<string, unknown>;
 	created_at: string;
 }
@@ -45,13 +171,163 @@ export interface MagiVote {
 	target_message_id: number;
 	score: number;
 	rationale: string | null;
+	/** Rubric breakdown; `score` is its weighted total. Null for heuristic fallback votes. */
+	criteria?: MagiVoteCriterionScore[] | null;
+	meta?: Record<string, unknown> | null;
+	tokens?: number | null;
+	prompt_tokens?: number | null;
+	completion_tokens?: number | null;
+	cached_tokens?: number | null;
+	cost_usd?: number | null;
+	created_at: string;
+}
+
+export type MagiFindingSeverity = "critical" | "high" | "medium" | "low" | "info";
+
+/** One finding as an agent reported it, after validation. */
+export interface MagiFindingDraft {
+	title: string;
+	severity: MagiFindingSeverity;
+	file_path: string | null;
+	line_start: number | null;
+	line_end: number | null;
+	/** Normalized to `CWE-<n>`. */
+	cwe: string | null;
+	evidence: string | null;
+	remediation: string | null;
+}
+
+export interface MagiFinding extends MagiFindingDraft {
+	id: number;
+	session_id: string;
+	/** The proposal or revision message the finding was extracted from. */
+	message_id: number;
+	agent_id: string | null;
+	round: number;
 	created_at: string;
 }
 
+/** Findings from different agents judged to describe the same issue. */
+export interface MagiFindingCluster {
+	/** 1-based, by agreement then severity. */
+	rank: number;
+	title: string;
+	severity: MagiFindingSeverity;
+	file_path: string | null;
+	line_start: number | null;
+	line_end: number | null;
+	cwe: string | null;
+	findingIds: number[];
+	/** Agents that reported the issue, in roster order. */
+	agentIds: string[];
+	/** Distinct reporting agents out of `rosterSize`, shown as 2/3. */
+	agreement: number;
+	rosterSize: number;
+}
+
+/** Issues each pair of agents both reported; the diagonal is each agent's own count. */
+export interface MagiAgreementMatrix {
+	agentIds: string[];
+	shared: number[][];
+}
+
+export interface MagiFindingsSummary {
+	clusters: MagiFindingCluster[];
+	matrix: MagiAgreementMatrix;
+}
+
+export interface MagiVoteSpread {
+	min: number;
+	max: number;
+	scores: { agentId: string; score: number }[];
+}
+
+/**
+ * A point the consensus would otherwise drop: a serious finding only one
+ * agent raised (`solo`) or a proposal the voters scored far apart (`split`).
+ */
+export interface MagiDissentPoint {
+	kind: "solo" | "split";
+	/** The proposal the point comes from. */
+	messageId: number;
+	agentId: string | null;
+	title: string;
+	severity: MagiFindingSeverity | null;
+	/** Raw vote scores on `messageId`; null when nobody voted on it. */
+	spread: MagiVoteSpread | null;
+}
+
+export interface MagiVerdictBallot {
+	agentId: string;
+	choice: MagiVerdictChoice;
+	reason: string;
+	/** True when the agent failed to answer and was counted as abstaining. */
+	fallback: boolean;
+}
+
+export interface MagiVerdictResult {
+	proposition: string;
+	rule: MagiVerdictRule;
+	outcome: MagiVerdictOutcome;
+	/** One per roster agent, in roster order. */
+	ballots: MagiVerdictBallot[];
+	explanation: string;
+}
+
+export type MagiPromptStage = "proposal" | "critique" | "vote" | "revision" | "verdict";
+
+export interface MagiPromptTemplate {
+        id: number;
+        /** Null for the default used by agents without their own template. */
+        agent_id: string | null;
+        stage: MagiPromptStage;
+        version: number;
+        body: string;
+        created_by: string | null;
+        created_at: string;
+}
+
+/** Which template produced a message or vote; version 0 is the built-in prompt. */
+export interface MagiPromptTemplateRef {
+        id: number | null;
+        agentId: string | null;
+        stage: MagiPromptStage;
+        version: number;
+}
+
+export interface MagiAbsentAgent {
+	agentId: string;
+	name: string;
+	step: MagiWorkflowStep;
+	round: number;
+	reason: string;
+}
+
+export interface MagiConsensusPoint {
+	index: number;
+	text: string;
+	sourceMessageIds: number[];
+}
+
+export interface MagiConsensusProvenance {
+	mode: MagiConsensusMode;
+	synthesizerAgentId: string | null;
+	/** Score per proposal message id under `votingScheme`, as used to weight the merge. */
+	weights: Record<string, number>;
+	votingScheme?: MagiVotingScheme;
+	points: MagiConsensusPoint[];
+	/** Final-round findings clustered across agents, most agreed first. */
+	findings?: MagiFindingsSummary;
+	/** The minority report appended to the consensus. */
+	dissent?: MagiDissentPoint[];
+	verdict?: MagiVerdictResult;
+}
+
 export interface MagiConsensus {
 	session_id: string;
 	final_message_id: number | null;
 	summary: string | null;
+	provenance?: MagiConsensusProvenance | null;
 	created_at: string;
 }
 
@@ -60,15 +336,20 @@ export interface CreateSessionRequestBody {
         userId?: string;
         artifactId?: string;
         liveUrl?: string;
+        settings?: MagiSessionSettings;
         keys?: {
                 openai?: string;
                 anthropic?: string;
                 grok?: string;
                 xai?: string;
+                gemini?: string;
+                mistral?: string;
+                /** Keys for agents with a custom `base_url`, by agent slug. */
+                endpoints?: Record<string, string>;
         };
 }
 
-export type MagiWorkflowStep = "propose" | "vote" | "consensus";
+export type MagiWorkflowStep = "propose" | "critique" | "vote" | "revise" | "consensus";
 
 export interface StepRequestBody {
         step: MagiWorkflowStep;
@@ -78,13 +359,94 @@ export interface StepRequestBody {
                 anthropic?: string;
                 grok?: string;
                 xai?: string;
+                gemini?: string;
+                mistral?: string;
+                /** Keys for agents with a custom `base_url`, by agent slug. */
+                endpoints?: Record<string, string>;
         };
 }
 
+export interface RunRequestBody {
+        userId?: string;
+        keys?: {
+                openai?: string;
+                anthropic?: string;
+                grok?: string;
+                xai?: string;
+                gemini?: string;
+                mistral?: string;
+                /** Keys for agents with a custom `base_url`, by agent slug. */
+                endpoints?: Record<string, string>;
+        };
+}
+
+export type MagiStepStatus = "running" | "complete" | "failed";
+
+export interface MagiStepRecord {
+        id: number;
+        session_id: string;
+        step: MagiWorkflowStep;
+        round: number;
+        status: MagiStepStatus;
+        result: Record<string, unknown> | null;
+        error: string | null;
+        started_at: string;
+        completed_at: string | null;
+}
+
+// Live progress pushed over /api/magi/session/[id]/stream. `streamId` groups
+// the deltas of one agent call (an agent may critique several proposals at once).
+export interface MagiAgentStreamRef {
+        step: MagiWorkflowStep;
+        round: number;
+        streamId: string;
+        agentId: string;
+        agentSlug: MagiAgent["slug"];
+        agentName: string;
+        targetMessageId?: number | null;
+}
+
+export type MagiStreamEventPayload =
+        | { type: "stage"; step: MagiWorkflowStep; round: number; status: "started" | "complete" | "failed"; error?: string }
+        | (MagiAgentStreamRef & { type: "agent"; status: "started" | "complete" | "failed"; error?: string })
+        | (MagiAgentStreamRef & { type: "delta"; text: string })
+        | (MagiAgentStreamRef & { type: "tool"; method: string; url: string; status: number | null; ok: boolean });
+
+export type MagiStreamEvent = MagiStreamEventPayload & { sessionId: string; at: string };
+
+export type MagiJobStatus = "running" | "complete" | "error" | "cancelled";
+
+export interface MagiJob {
+        session_id: string;
+        status: MagiJobStatus;
+        current_step: MagiWorkflowStep | null;
+        next_step: MagiWorkflowStep | null;
+        last_completed_step: MagiWorkflowStep | null;
+        round: number;
+        diagnostics: MagiStepDiagnostics | null;
+        error: string | null;
+        heartbeat_at: string;
+        created_at: string;
+        updated_at: string;
+}
+
 export interface MagiDiagnosticsProposalSummary {
 	id: number;
 	fallback: boolean;
 	preview: string;
+	/** Wall-clock time of the provider call that produced the proposal. */
+	durationMs: number | null;
+	providerUsed: MagiAgent["provider"] | null;
+	failedOver: boolean;
+}
+
+export interface MagiDiagnosticsPositionSummary {
+	round: number;
+	messageId: number;
+	revisionOf: number | null;
+	averageScore: number | null;
+	voteCount: number;
+	preview: string;
 }
 
 export interface MagiDiagnosticsCritiqueSummary {
@@ -110,9 +472,60 @@ export interface MagiStepDiagnosticsAgent {
 	critiquesAuthored: MagiDiagnosticsCritiqueSummary[];
 	critiquesReceived: MagiDiagnosticsCritiqueSummary[];
 	votesCast: MagiDiagnosticsVoteSummary[];
+	positions: MagiDiagnosticsPositionSummary[];
 	fallbackCount: number;
 }
 
+export interface MagiVotingTieBreak {
+	rule: "rawSum" | "voterCount" | "earliest";
+	tiedProposalIds: number[];
+}
+
+export interface MagiVotingStanding {
+	proposalId: number;
+	agentId: string | null;
+	/** Score under the session's scheme. */
+	score: number;
+	/** Weighted sum of the raw vote scores. */
+	rawSum: number;
+	voters: number;
+}
+
+export interface MagiVotingDiagnostics {
+	scheme: MagiVotingScheme;
+	weights: Record<string, number>;
+	/** Best first. */
+	standings: MagiVotingStanding[];
+	winnerProposalId: number | null;
+	condorcetWinnerId: number | null;
+	tieBreak: MagiVotingTieBreak | null;
+	/** How the winner was reached, step by step. */
+	explanation: string[];
+}
+
+export interface MagiAgentScoreBaseline {
+	agentId: string;
+	mean: number;
+	stdDev: number;
+	/** Votes the baseline was computed from. */
+	samples: number;
+}
+
+export interface MagiCalibrationDiagnostics {
+	mode: MagiScoreCalibration;
+	baselines: MagiAgentScoreBaseline[];
+	/** Weighted score sums per proposal before and after calibration. */
+	totals: { proposalId: number; raw: number; normalized: number }[];
+}
+
+export interface MagiBlindVoteDiagnostics {
+	/** Feed back as `settings.blindSeed` to get the same aliases and order. */
+	seed: number;
+	round: number;
+	/** Alias shown to voters, by proposal message id. */
+	aliases: Record<string, string>;
+}
+
 export interface MagiStepDiagnostics {
 	step: MagiWorkflowStep;
 	timestamp: string;
@@ -124,8 +537,20 @@ export interface MagiStepDiagnostics {
 	};
 	agents: MagiStepDiagnosticsAgent[];
 	events: string[];
+	round?: number;
+	maxRounds?: number;
+	converged?: boolean;
+	concurrency?: number;
+	quorum?: number;
+	absentAgents?: MagiAbsentAgent[];
 	winningProposalId?: number | null;
 	winningScore?: number | null;
+	voting?: MagiVotingDiagnostics;
+	calibration?: MagiCalibrationDiagnostics;
+	verdict?: MagiVerdictResult;
+	findings?: MagiFindingsSummary;
+	dissent?: MagiDissentPoint[];
+	blind?: MagiBlindVoteDiagnostics;
 	consensusMessageId?: number | null;
 }
 
@@ -0,0 +1,93 @@
+import type { MagiMessage, MagiTokenUsage, MagiVote } from "@/lib/magiTypes";
+
+/** USD per million tokens. `cachedInput` applies to prompt tokens read from the provider cache. */
+export interface ModelPrice {
+        input: number;
+        output: number;
+        cachedInput: number;
+}
+
+// Keys are model id prefixes so dated snapshots (e.g. claude-3-5-sonnet-20241022)
+// resolve to their family; the longest matching prefix wins.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+        "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+        "gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+        "gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+        "gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+        "gpt-4.1-nano": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+        "gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+        "gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+        o3: { input: 2, output: 8, cachedInput: 0.5 },
+        "o4-mini": { input: 1.1, output: 4.4, cachedInput: 0.275 },
+        "claude-3-5-haiku": { input: 0.8, output: 4, cachedInput: 0.08 },
+        "claude-3-5-sonnet": { input: 3, output: 15, cachedInput: 0.3 },
+        "claude-3-7-sonnet": { input: 3, output: 15, cachedInput: 0.3 },
+        "claude-sonnet-4": { input: 3, output: 15, cachedInput: 0.3 },
+        "claude-opus-4": { input: 15, output: 75, cachedInput: 1.5 },
+        "grok-3": { input: 3, output: 15, cachedInput: 0.75 },
+        "grok-3-mini": { input: 0.3, output: 0.5, cachedInput: 0.075 },
+        "grok-4": { input: 3, output: 15, cachedInput: 0.75 },
+        "gemini-2.0-flash": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+        "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.075 },
+        "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.31 },
+        "mistral-large": { input: 2, output: 6, cachedInput: 2 },
+        "mistral-medium": { input: 0.4, output: 2, cachedInput: 0.4 },
+        "mistral-small": { input: 0.1, output: 0.3, cachedInput: 0.1 },
+        codestral: { input: 0.3, output: 0.9, cachedInput: 0.3 },
+};
+
+export function emptyUsage(): MagiTokenUsage {
+        return { promptTokens: 0, completionTokens: 0, cachedTokens: 0 };
+}
+
+export function addUsage(a: MagiTokenUsage, b: MagiTokenUsage | null | undefined): MagiTokenUsage {
+        if (!b) return a;
+        return {
+                promptTokens: a.promptTokens + b.promptTokens,
+                completionTokens: a.completionTokens + b.completionTokens,
+                cachedTokens: a.cachedTokens + b.cachedTokens,
+        };
+}
+
+export function totalTokens(usage: MagiTokenUsage): number {
+        return usage.promptTokens + usage.completionTokens;
+}
+
+export function priceForModel(model: string | null | undefined): ModelPrice | null {
+        const id = (model || "").trim().toLowerCase();
+        if (!id) return null;
+        let best: string | null = null;
+        for (const prefix of Object.keys(MODEL_PRICES)) {
+                if (id.startsWith(prefix) && (!best || prefix.length > best.length)) best = prefix;
+        }
+        return best ? MODEL_PRICES[best] : null;
+}
+
+/** Cost in USD, or null when the model has no entry in MODEL_PRICES. */
+export function usageCost(model: string | null | undefined, usage: MagiTokenUsage): number | null {
+        const price = priceForModel(model);
+        if (!price) return null;
+        const uncached = Math.max(0, usage.promptTokens - usage.cachedTokens);
+        const cost =
+                uncached * price.input + usage.cachedTokens * price.cachedInput + usage.completionTokens * price.output;
+        return cost / 1_000_000;
+}
+
+type UsageRow = Pick<MagiMessage, "tokens" | "cost_usd"> | Pick<MagiVote, "tokens" | "cost_usd">;
+
+/** Sum the stored tokens and cost of a session's messages and votes. */
+export function sumUsageRows(rows: UsageRow[]): { tokens: number; costUsd: number } {
+        let tokens = 0;
+        let costUsd = 0;
+        for (const row of rows) {
+                tokens += typeof row.tokens === "number" ? row.tokens : 0;
+                costUsd += typeof row.cost_usd === "number" ? row.cost_usd : 0;
+        }
+        return { tokens, costUsd };
+}
+
+export function formatCost(costUsd: number | null | undefined): string {
+        if (typeof costUsd !== "number" || !Number.isFinite(costUsd)) return "—";
+        if (costUsd > 0 && costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+        return `$${costUsd.toFixed(2)}`;
+}
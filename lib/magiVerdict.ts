@@ -0,0 +1,73 @@
+import type {
+        MagiAgent,
+        MagiVerdictBallot,
+        MagiVerdictChoice,
+        MagiVerdictOutcome,
+        MagiVerdictResult,
+        MagiVerdictRule,
+        MagiVerdictSettings,
+} from "@/lib/magiTypes";
+
+// System messages with this stage hold one agent's verdict ballot.
+export const VERDICT_STAGE = "verdict";
+
+export const VERDICT_CHOICES: MagiVerdictChoice[] = ["approve", "reject", "abstain"];
+export const VERDICT_RULES: MagiVerdictRule[] = ["majority", "unanimity"];
+const MAX_PROPOSITION_CHARS = 500;
+
+/** The reply format rendered into verdict prompts. */
+export const VERDICT_FORMAT = `Reply ONLY with a JSON object: {"verdict": "approve" | "reject" | "abstain", "reason": "one or two sentences"}.`;
+
+/** Verdict settings from a session request, or null when verdict mode is off. */
+export function normalizeVerdictSettings(raw: unknown): MagiVerdictSettings | null {
+        if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+        const entry = raw as Record<string, unknown>;
+        const proposition = typeof entry.proposition === "string" ? entry.proposition.trim().slice(0, MAX_PROPOSITION_CHARS) : "";
+        if (!proposition) return null;
+        const rule = VERDICT_RULES.includes(entry.rule as MagiVerdictRule) ? (entry.rule as MagiVerdictRule) : "majority";
+        return { proposition, rule };
+}
+
+/** The choice in a parsed verdict reply, or null when it names none. */
+export function readVerdictChoice(parsed: Record<string, unknown> | null): MagiVerdictChoice | null {
+        const raw = parsed?.verdict ?? parsed?.decision;
+        if (typeof raw !== "string") return null;
+        const choice = raw.trim().toLowerCase();
+        if (choice === "approved" || choice === "yes") return "approve";
+        if (choice === "rejected" || choice === "no") return "reject";
+        return (VERDICT_CHOICES as string[]).includes(choice) ? (choice as MagiVerdictChoice) : null;
+}
+
+/**
+ * Resolve the ballots of a `rosterSize`-agent council. Agents that did not
+ * answer count as abstaining, so under majority a split council with
+ * abstentions deadlocks rather than passing on a minority.
+ */
+export function resolveVerdict(
+        ballots: MagiVerdictBallot[],
+        rule: MagiVerdictRule,
+        rosterSize: number
+): { outcome: MagiVerdictOutcome; explanation: string } {
+        const approve = ballots.filter((b) => b.choice === "approve").length;
+        const reject = ballots.filter((b) => b.choice === "reject").length;
+        const abstain = Math.max(0, rosterSize - approve - reject);
+        const tally = `${approve} approve, ${reject} reject, ${abstain} abstain`;
+        if (rule === "unanimity") {
+                if (reject > 0) return { outcome: "rejected", explanation: `Unanimity: vetoed (${tally}).` };
+                if (approve === rosterSize) return { outcome: "approved", explanation: `Unanimity: all ${rosterSize} approve.` };
+                return { outcome: "deadlocked", explanation: `Unanimity: no veto but not every agent approves (${tally}).` };
+        }
+        const needed = Math.floor(rosterSize / 2) + 1;
+        if (approve >= needed) return { outcome: "approved", explanation: `Majority: ${approve} of ${rosterSize} approve (${tally}).` };
+        if (reject >= needed) return { outcome: "rejected", explanation: `Majority: ${reject} of ${rosterSize} reject (${tally}).` };
+        return { outcome: "deadlocked", explanation: `Majority: neither side reached ${needed} of ${rosterSize} (${tally}).` };
+}
+
+/** The verdict section appended to the consensus message. */
+export function formatVerdict(result: MagiVerdictResult, agents: MagiAgent[]): string {
+        const lines = result.ballots.map((b) => {
+                const name = agents.find((a) => a.id === b.agentId)?.name ?? b.agentId;
+                return `- ${name}: ${b.choice}${b.reason ? ` — ${b.reason}` : ""}`;
+        });
+        return `Verdict on "${result.proposition}": ${result.outcome.toUpperCase()}\n${result.explanation}\n${lines.join("\n")}`;
+}
@@ -0,0 +1,233 @@
+import type {
+        MagiMessage,
+        MagiVote,
+        MagiVotingDiagnostics,
+        MagiVotingScheme,
+        MagiVotingTieBreak,
+} from "@/lib/magiTypes";
+
+export const VOTING_SCHEMES: MagiVotingScheme[] = ["sum", "mean", "median", "borda", "condorcet"];
+export const DEFAULT_VOTING_SCHEME: MagiVotingScheme = "sum";
+export const MAX_AGENT_WEIGHT = 10;
+
+/**
+ * Applied in order when two proposals share the top score: the higher
+ * weighted raw score sum, then the most voters, then the earliest proposal.
+ * The last rule always separates them, so every tally has one winner.
+ */
+export const TIE_BREAK_RULES: MagiVotingTieBreak["rule"][] = ["rawSum", "voterCount", "earliest"];
+
+export function normalizeVotingScheme(raw: unknown): MagiVotingScheme {
+        return typeof raw === "string" && (VOTING_SCHEMES as string[]).includes(raw)
+                ? (raw as MagiVotingScheme)
+                : DEFAULT_VOTING_SCHEME;
+}
+
+/** Trust weights by agent id, clamped to 0–MAX_AGENT_WEIGHT; agents left out count as 1. */
+export function normalizeAgentWeights(raw: unknown): Record<string, number> | null {
+        if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+        const weights: Record<string, number> = {};
+        for (const [agentId, value] of Object.entries(raw as Record<string, unknown>)) {
+                const parsed = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+                if (!Number.isFinite(parsed) || parsed === 1) continue;
+                weights[agentId] = Math.max(0, Math.min(MAX_AGENT_WEIGHT, parsed));
+        }
+        return Object.keys(weights).length > 0 ? weights : null;
+}
+
+type Ballot = { voterId: string; weight: number; score: number };
+
+function round2(value: number): number {
+        return Math.round(value * 100) / 100;
+}
+
+function weightedMedian(ballots: Ballot[]): number {
+        const sorted = ballots.filter((b) => b.weight > 0).sort((a, b) => a.score - b.score);
+        const total = sorted.reduce((sum, b) => sum + b.weight, 0);
+        if (total === 0) return 0;
+        let running = 0;
+        for (let i = 0; i < sorted.length; i++) {
+                running += sorted[i].weight;
+                // Exactly half the weight below: average with the next score, like an even-count median.
+                if (running === total / 2 && i + 1 < sorted.length) return (sorted[i].score + sorted[i + 1].score) / 2;
+                if (running > total / 2) return sorted[i].score;
+        }
+        return sorted[sorted.length - 1].score;
+}
+
+/**
+ * Borda points from each voter's own ranking of the proposals they scored:
+ * the top of k proposals earns k-1, the bottom 0, and tied scores share the
+ * average of the places they span.
+ */
+function bordaPoints(ballotsByVoter: Map<string, { proposalId: number; score: number }[]>): Map<string, Map<number, number>> {
+        const points = new Map<string, Map<number, number>>();
+        ballotsByVoter.forEach((ballots, voterId) => {
+                const ranked = ballots.slice().sort((a, b) => b.score - a.score);
+                const k = ranked.length;
+                const byProposal = new Map<number, number>();
+                let i = 0;
+                while (i < k) {
+                        let j = i;
+                        while (j + 1 < k && ranked[j + 1].score === ranked[i].score) j++;
+                        // Places i..j share the points for those places.
+                        const shared = ((k - 1 - i) + (k - 1 - j)) / 2;
+                        for (let x = i; x <= j; x++) byProposal.set(ranked[x].proposalId, shared);
+                        i = j + 1;
+                }
+                points.set(voterId, byProposal);
+        });
+        return points;
+}
+
+/**
+ * Aggregate the votes on one round's proposals under `scheme` and pick a
+ * winner. Every proposal appears in the result, including ones nobody voted
+ * on, so the diagnostics can show the full standings.
+ */
+export function tallyVotes(params: {
+        proposals: MagiMessage[];
+        votes: MagiVote[];
+        scheme: MagiVotingScheme;
+        weights?: Record<string, number> | null;
+}): MagiVotingDiagnostics {
+        const { proposals, scheme } = params;
+        const weightOf = (agentId: string) => params.weights?.[agentId] ?? 1;
+        const proposalIds = new Set(proposals.map((p) => p.id));
+        const votes = params.votes.filter((v) => proposalIds.has(v.target_message_id));
+        const ballots = new Map<number, Ballot[]>();
+        const ballotsByVoter = new Map<string, { proposalId: number; score: number }[]>();
+        for (const v of votes) {
+                const score = Number(v.score) || 0;
+                const list = ballots.get(v.target_message_id) ?? [];
+                list.push({ voterId: v.agent_id, weight: weightOf(v.agent_id), score });
+                ballots.set(v.target_message_id, list);
+                const mine = ballotsByVoter.get(v.agent_id) ?? [];
+                mine.push({ proposalId: v.target_message_id, score });
+                ballotsByVoter.set(v.agent_id, mine);
+        }
+
+        const explanation: string[] = [];
+        const weighted = Object.values(params.weights ?? {}).some((w) => w !== 1);
+        let scoreOf: (proposalId: number) => number;
+        let condorcetWinnerId: number | null = null;
+        switch (scheme) {
+                case "mean":
+                        scoreOf = (id) => {
+                                const list = ballots.get(id) ?? [];
+                                const total = list.reduce((sum, b) => sum + b.weight, 0);
+                                return total > 0 ? list.reduce((sum, b) => sum + b.weight * b.score, 0) / total : 0;
+                        };
+                        explanation.push(`Mean: ${weighted ? "trust-weighted " : ""}average score from the agents who voted on each proposal.`);
+                        break;
+                case "median":
+                        scoreOf = (id) => weightedMedian(ballots.get(id) ?? []);
+                        explanation.push(`Median: ${weighted ? "trust-weighted " : ""}middle score each proposal received.`);
+                        break;
+                case "borda": {
+                        const points = bordaPoints(ballotsByVoter);
+                        scoreOf = (id) => {
+                                let total = 0;
+                                points.forEach((byProposal, voterId) => {
+                                        total += weightOf(voterId) * (byProposal.get(id) ?? 0);
+                                });
+                                return total;
+                        };
+                        explanation.push(
+                                `Borda: each agent ranks the proposals it scored; with k proposals the top earns k-1 points and the bottom 0${weighted ? ", times the agent's trust weight" : ""}.`
+                        );
+                        break;
+                }
+                case "condorcet": {
+                        // Copeland score: pairwise wins minus losses, where a pair is
+                        // decided by the (weighted) agents who scored both proposals.
+                        const copeland = new Map<number, number>(proposals.map((p) => [p.id, 0]));
+                        for (let i = 0; i < proposals.length; i++) {
+                                for (let j = i + 1; j < proposals.length; j++) {
+                                        const a = proposals[i].id;
+                                        const b = proposals[j].id;
+                                        let forA = 0;
+                                        let forB = 0;
+                                        ballotsByVoter.forEach((mine, voterId) => {
+                                                const sa = mine.find((x) => x.proposalId === a)?.score;
+                                                const sb = mine.find((x) => x.proposalId === b)?.score;
+                                                if (sa === undefined || sb === undefined || sa === sb) return;
+                                                if (sa > sb) forA += weightOf(voterId);
+                                                else forB += weightOf(voterId);
+                                        });
+                                        if (forA === forB) continue;
+                                        const [winner, loser] = forA > forB ? [a, b] : [b, a];
+                                        copeland.set(winner, (copeland.get(winner) ?? 0) + 1);
+                                        copeland.set(loser, (copeland.get(loser) ?? 0) - 1);
+                                        explanation.push(`#${winner} beats #${loser} ${round2(Math.max(forA, forB))}–${round2(Math.min(forA, forB))}`);
+                                }
+                        }
+                        const everyPair = proposals.length - 1;
+                        const unbeaten = proposals.filter((p) => copeland.get(p.id) === everyPair);
+                        if (proposals.length > 1 && unbeaten.length === 1) condorcetWinnerId = unbeaten[0].id;
+                        scoreOf = (id) => copeland.get(id) ?? 0;
+                        explanation.unshift(
+                                condorcetWinnerId !== null
+                                        ? `Condorcet: #${condorcetWinnerId} beats every other proposal head to head.`
+                                        : "Condorcet: no proposal beats every other head to head; ranked by Copeland score (pairwise wins minus losses)."
+                        );
+                        break;
+                }
+                default:
+                        scoreOf = (id) => (ballots.get(id) ?? []).reduce((sum, b) => sum + b.weight * b.score, 0);
+                        explanation.push(`Sum: ${weighted ? "trust-weighted " : ""}total of every score each proposal received.`);
+        }
+
+        const order = new Map(proposals.map((p, index) => [p.id, index]));
+        const standings = proposals.map((p) => {
+                const list = ballots.get(p.id) ?? [];
+                return {
+                        proposalId: p.id,
+                        agentId: p.agent_id,
+                        score: round2(scoreOf(p.id)),
+                        rawSum: round2(list.reduce((sum, b) => sum + b.weight * b.score, 0)),
+                        voters: list.length,
+                };
+        });
+        standings.sort(
+                (a, b) =>
+                        b.score - a.score ||
+                        b.rawSum - a.rawSum ||
+                        b.voters - a.voters ||
+                        (order.get(a.proposalId) ?? 0) - (order.get(b.proposalId) ?? 0)
+        );
+
+        const top = standings[0] ?? null;
+        let tieBreak: MagiVotingTieBreak | null = null;
+        if (top) {
+                let tied = standings.filter((s) => s.score === top.score);
+                if (tied.length > 1) {
+                        const tiedIds = tied.map((s) => s.proposalId);
+                        for (const rule of TIE_BREAK_RULES) {
+                                const value = (s: (typeof standings)[number]) =>
+                                        rule === "rawSum" ? s.rawSum : rule === "voterCount" ? s.voters : -(order.get(s.proposalId) ?? 0);
+                                const best = Math.max(...tied.map(value));
+                                const remaining = tied.filter((s) => value(s) === best);
+                                if (remaining.length === 1) {
+                                        tieBreak = { rule, tiedProposalIds: tiedIds };
+                                        break;
+                                }
+                                tied = remaining;
+                        }
+                        explanation.push(
+                                `Tie at ${top.score} between ${tiedIds.map((id) => `#${id}`).join(", ")}; broken by ${tieBreak?.rule ?? "earliest"}.`
+                        );
+                }
+                explanation.push(`Winner: #${top.proposalId} with ${top.score}.`);
+        }
+
+        return {
+                scheme,
+                weights: params.weights ?? {},
+                standings,
+                winnerProposalId: top?.proposalId ?? null,
+                condorcetWinnerId: scheme === "condorcet" ? condorcetWinnerId : null,
+                tieBreak,
+                explanation,
+        };
+}
@@ -0,0 +1,1580 @@
+import {
+        addFindings,
+        addMessage,
+        addVote,
+        claimStep,
+        getSessionFull,
+        listPromptTemplates,
+        listRecentVotes,
+        listSteps,
+        setSessionStatus,
+        updateStep,
+        upsertConsensus,
+} from "@/lib/magiRepo";
+import { buildArtifactContextText } from "@/lib/codeArtifacts";
+import { buildLiveUrlContext } from "@/lib/liveSiteContext";
+import {
+        buildPositionHistory,
+        clampDebateRounds,
+        debateConverged,
+        latestRound,
+        proposalsForRound,
+} from "@/lib/magiDebate";
+import { JOB_STALL_AFTER_MS } from "@/lib/magiJobs";
+import { buildSynthesisPrompt, parseSynthesisPoints } from "@/lib/magiSynthesis";
+import { clampProposalConcurrency, mapSettledWithConcurrency } from "@/lib/magiConcurrency";
+import { publishSessionEvent } from "@/lib/magiEvents";
+import { isProviderName } from "@/lib/providers";
+import { totalTokens, usageCost } from "@/lib/magiUsage";
+import { BudgetExceededError, budgetViolation, createBudgetGuard, loadBudgetWindows, type BudgetGuard } from "@/lib/magiBudget";
+import { createPromptSet, type PromptSet } from "@/lib/magiPrompts";
+import {
+        FINDINGS_FORMAT,
+        FINDINGS_MAX_OUTPUT_TOKENS,
+        readableReply,
+        readFindings,
+        renderFindingsProse,
+        type ParsedFindings,
+} from "@/lib/magiFindings";
+import { clusterFindings, formatFindingClusters } from "@/lib/magiFindingClusters";
+import { buildDissentReport, formatDissentReport } from "@/lib/magiDissent";
+import { createBlindBallot, normalizeBlindSeed, randomBlindSeed, type BlindBallot } from "@/lib/magiBlind";
+import { formatVerdict, normalizeVerdictSettings, readVerdictChoice, resolveVerdict, VERDICT_FORMAT, VERDICT_STAGE } from "@/lib/magiVerdict";
+import { formatRubricInstructions, normalizeRubric, readRubricScores, weightedRubricTotal } from "@/lib/magiRubric";
+import { normalizeAgentWeights, normalizeVotingScheme, tallyVotes } from "@/lib/magiVoting";
+import {
+        CALIBRATION_HISTORY_LIMIT,
+        calibrateVotes,
+        calibrationDiagnostics,
+        normalizeScoreCalibration,
+        scoreBaselines,
+} from "@/lib/magiCalibration";
+import { ABSENCE_STAGE, absentAgents, formatAbsenceNote, presentAgents, resolveQuorum } from "@/lib/magiQuorum";
+import {
+        agentChat,
+        type AgentChatOptions,
+        type AgentChatResult,
+        type ProviderKeyMap,
+} from "@/lib/magiProviders";
+import type {
+        MagiAgent,
+        MagiAgentStreamRef,
+        MagiBlindVoteDiagnostics,
+        MagiCalibrationDiagnostics,
+        MagiConsensusProvenance,
+        MagiDissentPoint,
+        MagiFindingsSummary,
+        MagiMessage,
+        MagiMessageKind,
+        MagiSession,
+        MagiStepDiagnostics,
+        MagiStepRecord,
+        MagiTokenUsage,
+        MagiVerdictBallot,
+        MagiVerdictChoice,
+        MagiVerdictResult,
+        MagiVerdictSettings,
+        MagiVote,
+        MagiVoteCriterionScore,
+        MagiVotingDiagnostics,
+        MagiWorkflowStep,
+} from "@/lib/magiTypes";
+
+export const WORKFLOW_STEPS: MagiWorkflowStep[] = ["propose", "critique", "vote", "revise", "consensus"];
+
+export interface WorkflowStepResult {
+        status: number;
+        payload: Record<string, unknown>;
+}
+
+type SessionFull = Awaited<ReturnType<typeof getSessionFull>>;
+
+interface StepContext {
+        sessionId: string;
+        keys: ProviderKeyMap;
+        /** Agents still taking part; anyone recorded absent is left out. */
+        agents: MagiAgent[];
+        roster: MagiAgent[];
+        quorum: number;
+        full: SessionFull & { session: MagiSession };
+        round: number;
+        maxRounds: number;
+        /** Set when the run can be cancelled; aborting it stops every provider call. */
+        signal?: AbortSignal;
+        budget: BudgetGuard;
+        /** Prompt templates as they stood when the step started. */
+        prompts: PromptSet;
+}
+
+const BASE_CONTEXT_CHAR_BUDGET = 14_000;
+const MAX_CONTEXT_CHAR_BUDGET = 22_000;
+const MIN_TOTAL_CONTEXT_CHARS = 12_000;
+const CONTEXT_ARTIFACT_SHARE = 0.6;
+const MIN_ARTIFACT_CHARS = 6_000;
+const MIN_LIVE_CHARS = 2_000;
+
+type ContextBudgetTargets = {
+        total: number;
+        artifactTarget: number;
+        liveTarget: number;
+};
+
+function deriveContextBudgets(question: string | null | undefined): ContextBudgetTargets {
+        const questionLength = question?.length ?? 0;
+        const growthSteps = Math.max(0, Math.floor(Math.max(questionLength - 600, 0) / 400));
+        const growth = Math.min(MAX_CONTEXT_CHAR_BUDGET - BASE_CONTEXT_CHAR_BUDGET, growthSteps * 1_000);
+        const shrink = questionLength < 200 ? 2_000 : questionLength < 500 ? 1_000 : 0;
+        const totalBudget = Math.max(
+                MIN_TOTAL_CONTEXT_CHARS,
+                Math.min(MAX_CONTEXT_CHAR_BUDGET, BASE_CONTEXT_CHAR_BUDGET + growth - shrink)
+        );
+        const artifactTarget = Math.max(MIN_ARTIFACT_CHARS, Math.round(totalBudget * CONTEXT_ARTIFACT_SHARE));
+        const liveTarget = Math.max(MIN_LIVE_CHARS, totalBudget - artifactTarget);
+        return { total: totalBudget, artifactTarget, liveTarget };
+}
+
+function trimTextToLength(text: string | null, maxChars: number): { text: string | null; trimmed: boolean } {
+        if (!text || text.length <= maxChars) {
+                return { text, trimmed: false };
+        }
+        const sliced = `${text.slice(0, Math.max(0, maxChars - 1))}…`;
+        return { text: sliced, trimmed: true };
+}
+
+function rebalanceContextBudgets(
+        artifact: string | null,
+        live: string | null,
+        budget: ContextBudgetTargets
+) {
+        const artifactLen = artifact?.length ?? 0;
+        const liveLen = live?.length ?? 0;
+        const total = artifactLen + liveLen;
+        let artifactTrimmed = false;
+        let liveTrimmed = false;
+        let artifactResult = artifact;
+        let liveResult = live;
+
+        if (artifactResult && liveResult && total > budget.total) {
+                const artifactCut = trimTextToLength(artifactResult, budget.artifactTarget);
+                const liveCut = trimTextToLength(liveResult, budget.liveTarget);
+                artifactResult = artifactCut.text;
+                liveResult = liveCut.text;
+                artifactTrimmed = artifactCut.trimmed;
+                liveTrimmed = liveCut.trimmed;
+                return { artifact: artifactResult, live: liveResult, artifactTrimmed, liveTrimmed };
+        }
+
+        if (!liveResult && artifactResult && artifactLen > budget.total) {
+                const artifactCut = trimTextToLength(artifactResult, budget.total);
+                artifactResult = artifactCut.text;
+                artifactTrimmed = artifactCut.trimmed;
+        } else if (!artifactResult && liveResult && liveLen > budget.total) {
+                const liveCut = trimTextToLength(liveResult, budget.total);
+                liveResult = liveCut.text;
+                liveTrimmed = liveCut.trimmed;
+        }
+
+        return { artifact: artifactResult, live: liveResult, artifactTrimmed, liveTrimmed };
+}
+
+function previewText(content: string, maxLength = 120): string {
+        const normalized = content.replace(/\s+/g, " ").trim();
+        if (normalized.length <= maxLength) return normalized;
+        return `${normalized.slice(0, Math.max(0, maxLength - 1))}…`;
+}
+
+/** The JSON object in a reply, whether bare, fenced or wrapped in prose. */
+function parseJsonReply(raw: string | null | undefined): Record<string, unknown> | null {
+        if (typeof raw !== "string") return null;
+        const trimmed = raw.trim();
+        if (!trimmed) return null;
+
+        const tryParse = (candidate: string) => {
+                try {
+                        const parsed = JSON.parse(candidate);
+                        return typeof parsed === "object" && parsed !== null ? (parsed as any) : null;
+                } catch (err) {
+                        return null;
+                }
+        };
+
+        const direct = tryParse(trimmed);
+        if (direct) return direct;
+
+        const fenceMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+        if (fenceMatch) {
+                const fromFence = tryParse(fenceMatch[1]);
+                if (fromFence) return fromFence;
+        }
+
+        const firstBrace = trimmed.indexOf("{");
+        const lastBrace = trimmed.lastIndexOf("}");
+        if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+                const candidate = trimmed.slice(firstBrace, lastBrace + 1);
+                const parsed = tryParse(candidate);
+                if (parsed) return parsed;
+        }
+
+        return null;
+}
+
+/**
+ * The blind-voting seed for a round: the one fixed in settings, else the one
+ * already used by this round's stored votes so a resumed step shows voters
+ * the same aliases, else a fresh one.
+ */
+function blindSeedForRound(configured: unknown, votes: MagiVote[], round: number): number {
+        const fixed = normalizeBlindSeed(configured);
+        if (fixed !== null) return fixed;
+        for (const v of votes) {
+                const meta = normalizeMeta(v.meta);
+                const blind = meta.blind as Record<string, unknown> | undefined;
+                if (readMetaNumber(meta, "round") === round && typeof blind?.seed === "number") return blind.seed;
+        }
+        return randomBlindSeed();
+}
+
+/**
+ * Split a proposal or revision reply into the prose stored as the message and
+ * its structured findings. A reply that ignores the schema is stored as its
+ * readable part.
+ */
+function extractFindings(agent: MagiAgent, raw: string, stageEvents: string[]): { content: string; findings: ParsedFindings | null } {
+        const parsed = parseJsonReply(raw);
+        const findings = readFindings(parsed);
+        if (!findings) {
+                stageEvents.push(`[${agent.name}] reply did not follow the findings schema; stored as free text`);
+                return { content: readableReply(raw, parsed), findings: null };
+        }
+        for (const reason of findings.rejected) {
+                stageEvents.push(`[${agent.name}] dropped finding: ${reason}`);
+        }
+        return { content: renderFindingsProse(findings.summary, findings.findings), findings };
+}
+
+async function storeFindings(message: MagiMessage, round: number, findings: ParsedFindings | null, stageEvents: string[]) {
+        if (!findings || findings.findings.length === 0) return;
+        const stored = await addFindings({
+                sessionId: message.session_id,
+                messageId: message.id,
+                agentId: message.agent_id,
+                round,
+                findings: findings.findings,
+        });
+        stageEvents.push(`#${message.id}: ${stored.length} finding${stored.length === 1 ? "" : "s"} stored`);
+}
+
+function formatCritiquesForProposal(
+        proposal: MagiMessage,
+        critiques: MagiMessage[],
+        agents: MagiAgent[],
+        blind?: BlindBallot | null
+): string {
+        const received = critiques.filter(
+                (c) => readMetaNumber(normalizeMeta(c.meta), "targetMessageId") === proposal.id
+        );
+        if (received.length === 0) {
+                return "Peer critiques: none recorded.";
+        }
+        const lines = received.map((c, index) => {
+                if (blind) return `- Reviewer ${index + 1}: ${blind.anonymize(c.content.trim())}`;
+                const author = agents.find((a) => a.id === c.agent_id);
+                return `- ${author ? author.name : "Unknown agent"}: ${c.content.trim()}`;
+        });
+        return `Peer critiques:\n${lines.join("\n")}`;
+}
+
+function normalizeMeta(meta: Record<string, unknown> | null | undefined): Record<string, unknown> {
+        if (!meta || typeof meta !== "object") return {};
+        return meta as Record<string, unknown>;
+}
+
+function readMetaNumber(meta: Record<string, unknown>, key: string): number | null {
+        const raw = meta[key];
+        if (typeof raw === "number" && Number.isFinite(raw)) return raw;
+        if (typeof raw === "string") {
+                const parsed = Number.parseInt(raw, 10);
+                if (Number.isFinite(parsed)) return parsed;
+        }
+        return null;
+}
+
+function readMetaProvider(meta: Record<string, unknown>, key: string): MagiAgent["provider"] | null {
+        const raw = meta[key];
+        return isProviderName(raw) ? raw : null;
+}
+
+function readMetaBoolean(meta: Record<string, unknown>, key: string): boolean {
+        const raw = meta[key];
+        if (typeof raw === "boolean") return raw;
+        if (typeof raw === "number") return raw !== 0;
+        if (typeof raw === "string") {
+                const lowered = raw.toLowerCase();
+                return lowered === "true" || lowered === "1" || lowered === "yes";
+        }
+        return false;
+}
+
+function describeFailover(agent: MagiAgent, result: AgentChatResult | null): string | null {
+        if (!result || result.failover.length === 0) return null;
+        const skipped = result.failover.map((f) => `${f.provider}/${f.model} (${f.error})`).join(", ");
+        return `[${agent.name}] failed over to ${result.providerUsed}/${result.modelUsed} after ${skipped}`;
+}
+
+/**
+ * agentChat behind the session's budget windows: every provider request,
+ * HTTP relay turns included, is refused once a budget is used up, and each
+ * response's usage counts toward every window as it arrives.
+ */
+function budgetedChat(
+        ctx: StepContext,
+        agent: MagiAgent,
+        messages: Parameters<typeof agentChat>[2],
+        options?: AgentChatOptions
+): Promise<AgentChatResult> {
+        return agentChat(agent, ctx.keys, messages, {
+                ...options,
+                beforeTurn: () => ctx.budget.check(),
+                onTurnUsage: (usage, model) => ctx.budget.record({ tokens: totalTokens(usage), costUsd: usageCost(model, usage) ?? 0 }),
+        });
+}
+
+// Token counts and priced cost for addMessage/addVote.
+function usageFields(result: AgentChatResult | null): { usage?: MagiTokenUsage; costUsd?: number | null } {
+        if (!result) return {};
+        return { usage: result.usage, costUsd: usageCost(result.modelUsed, result.usage) };
+}
+
+function formatDuration(ms: number): string {
+        return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function buildDiagnostics(params: {
+        step: MagiWorkflowStep;
+        agents: MagiAgent[];
+        messages: MagiMessage[];
+        votes: MagiVote[];
+        events: string[];
+        round?: { current: number; max: number; converged?: boolean };
+        winning?: { id: number; score: number } | null;
+        voting?: MagiVotingDiagnostics;
+        calibration?: MagiCalibrationDiagnostics;
+        verdict?: MagiVerdictResult;
+        findings?: MagiFindingsSummary;
+        dissent?: MagiDissentPoint[];
+        blind?: MagiBlindVoteDiagnostics;
+        consensusMessageId?: number | null;
+        concurrency?: number;
+        quorum?: number;
+}): MagiStepDiagnostics {
+        const proposals = params.messages.filter((m) => m.role === "agent_proposal");
+        const critiques = params.messages.filter((m) => m.role === "agent_critique");
+        const consensusMessages = params.messages.filter((m) => m.role === "consensus");
+
+        const perAgent = params.agents.map((agent) => {
+                const authoredProposals = proposals.filter((m) => m.agent_id === agent.id);
+                const authoredCritiques = critiques.filter((m) => m.agent_id === agent.id);
+                const agentVotes = params.votes.filter((v) => v.agent_id === agent.id);
+                const proposalIds = new Set(authoredProposals.map((p) => p.id));
+                const critiquesReceived = critiques.filter((c) => {
+                        const meta = normalizeMeta(c.meta);
+                        const targetId = readMetaNumber(meta, "targetMessageId");
+                        return targetId !== null && proposalIds.has(targetId);
+                });
+
+                const proposalSummaries = authoredProposals.map((p) => {
+                        const meta = normalizeMeta(p.meta);
+                        return {
+                                id: p.id,
+                                fallback: readMetaBoolean(meta, "fallback"),
+                                preview: previewText(p.content),
+                                durationMs: readMetaNumber(meta, "durationMs"),
+                                providerUsed: readMetaProvider(meta, "actualProvider"),
+                                failedOver: Array.isArray(meta.failover) && meta.failover.length > 0,
+                        };
+                });
+                const critiqueSummaries = authoredCritiques.map((c) => {
+                        const meta = normalizeMeta(c.meta);
+                        return {
+                                id: c.id,
+                                targetMessageId: readMetaNumber(meta, "targetMessageId"),
+                                fallback: readMetaBoolean(meta, "fallback"),
+                                preview: previewText(c.content),
+                        };
+                });
+                const critiqueReceivedSummaries = critiquesReceived.map((c) => {
+                        const meta = normalizeMeta(c.meta);
+                        return {
+                                id: c.id,
+                                targetMessageId: readMetaNumber(meta, "targetMessageId"),
+                                fallback: readMetaBoolean(meta, "fallback"),
+                                preview: previewText(c.content),
+                        };
+                });
+                const voteSummaries = agentVotes.map((v) => {
+                        const rationale = v.rationale ?? null;
+                        const fallback = typeof rationale === "string" && rationale.toLowerCase().includes("heuristic");
+                        const rawScore = (v as unknown as { score: number | string | null | undefined }).score;
+                        const parsedScore =
+                                typeof rawScore === "number"
+                                        ? rawScore
+                                        : typeof rawScore === "string"
+                                                ? Number(rawScore)
+                                                : null;
+                        const score =
+                                typeof parsedScore === "number" && Number.isFinite(parsedScore) ? parsedScore : 0;
+                        return {
+                                id: v.id,
+                                targetMessageId: v.target_message_id,
+                                score,
+                                rationale,
+                                fallback,
+                        };
+                });
+
+                const fallbackCount =
+                        proposalSummaries.filter((p) => p.fallback).length +
+                        critiqueSummaries.filter((c) => c.fallback).length +
+                        voteSummaries.filter((v) => v.fallback).length;
+
+                return {
+                        agentId: agent.id,
+                        name: agent.name,
+                        provider: agent.provider,
+                        proposals: proposalSummaries,
+                        critiquesAuthored: critiqueSummaries,
+                        critiquesReceived: critiqueReceivedSummaries,
+                        votesCast: voteSummaries,
+                        positions: buildPositionHistory(agent.id, params.messages, params.votes),
+                        fallbackCount,
+                };
+        });
+
+        const diagnostics: MagiStepDiagnostics = {
+                step: params.step,
+                timestamp: new Date().toISOString(),
+                totals: {
+                        proposals: proposals.length,
+                        critiques: critiques.length,
+                        votes: params.votes.length,
+                        consensus: consensusMessages.length,
+                },
+                agents: perAgent,
+                events: params.events.slice(),
+        };
+
+        if (params.round) {
+                diagnostics.round = params.round.current;
+                diagnostics.maxRounds = params.round.max;
+                if (typeof params.round.converged === "boolean") {
+                        diagnostics.converged = params.round.converged;
+                }
+        }
+        if (typeof params.concurrency === "number") {
+                diagnostics.concurrency = params.concurrency;
+        }
+        if (typeof params.quorum === "number") {
+                diagnostics.quorum = params.quorum;
+        }
+        const absent = absentAgents(params.messages);
+        if (absent.length > 0) {
+                diagnostics.absentAgents = absent;
+        }
+        if (params.winning) {
+                diagnostics.winningProposalId = params.winning.id;
+                diagnostics.winningScore = params.winning.score;
+        }
+        if (params.voting) {
+                diagnostics.voting = params.voting;
+        }
+        if (params.calibration) {
+                diagnostics.calibration = params.calibration;
+        }
+        if (params.verdict) {
+                diagnostics.verdict = params.verdict;
+        }
+        if (params.findings) {
+                diagnostics.findings = params.findings;
+        }
+        if (params.dissent && params.dissent.length > 0) {
+                diagnostics.dissent = params.dissent;
+        }
+        if (params.blind) {
+                diagnostics.blind = params.blind;
+        }
+        if (typeof params.consensusMessageId !== "undefined") {
+                diagnostics.consensusMessageId = params.consensusMessageId;
+        }
+
+        return diagnostics;
+}
+
+interface AgentStream {
+        options: Pick<AgentChatOptions, "onDelta" | "onToolCall" | "onRetry" | "signal">;
+        finish: (error?: string) => void;
+}
+
+/**
+ * Announce an agent call on the session's event stream and return chat
+ * options that forward its token deltas and HTTP tool calls. Provider retries
+ * are written to `stageEvents` so they show up in the step diagnostics.
+ */
+function beginAgentStream(
+        ctx: StepContext,
+        stageEvents: string[],
+        step: MagiWorkflowStep,
+        round: number,
+        agent: MagiAgent,
+        targetMessageId: number | null = null
+): AgentStream {
+        const { sessionId } = ctx;
+        const ref: MagiAgentStreamRef = {
+                step,
+                round,
+                streamId: `${step}:${round}:${agent.id}${targetMessageId !== null ? `:${targetMessageId}` : ""}`,
+                agentId: agent.id,
+                agentSlug: agent.slug,
+                agentName: agent.name,
+                targetMessageId,
+        };
+        publishSessionEvent(sessionId, { ...ref, type: "agent", status: "started" });
+        return {
+                options: {
+                        onDelta: (text) => publishSessionEvent(sessionId, { ...ref, type: "delta", text }),
+                        onToolCall: (call) => publishSessionEvent(sessionId, { ...ref, type: "tool", ...call }),
+                        onRetry: (retry) =>
+                                stageEvents.push(
+                                        `[${agent.name}] ${retry.provider} ${retry.reason}; attempt ${retry.attempt}/${retry.maxAttempts} in ${formatDuration(retry.delayMs)} (${retry.source})`
+                                ),
+                        signal: ctx.signal,
+                },
+                finish: (error) =>
+                        publishSessionEvent(
+                                sessionId,
+                                error ? { ...ref, type: "agent", status: "failed", error } : { ...ref, type: "agent", status: "complete" }
+                        ),
+        };
+}
+
+/**
+ * Decide what happens when some agents failed to produce a proposal. With
+ * enough answers to meet the session quorum the failed agents are recorded
+ * as absent and the run carries on without them; otherwise the session is
+ * failed with the first error, as it always was without quorum.
+ */
+async function enforceQuorum(
+        ctx: StepContext,
+        step: MagiWorkflowStep,
+        round: number,
+        outcomes: PromiseSettledResult<MagiMessage | null>[],
+        stageEvents: string[]
+): Promise<void> {
+        ctx.signal?.throwIfAborted();
+        const overBudget = outcomes.find(
+                (o): o is PromiseRejectedResult => o.status === "rejected" && o.reason instanceof BudgetExceededError
+        );
+        if (overBudget) throw overBudget.reason;
+        const failures = ctx.agents
+                .map((agent, i) => ({ agent, outcome: outcomes[i] }))
+                .filter((entry): entry is { agent: MagiAgent; outcome: PromiseRejectedResult } => entry.outcome?.status === "rejected");
+        if (failures.length === 0) return;
+        const answered = outcomes.filter((o) => o.status === "fulfilled" && o.value !== null).length;
+        if (answered < ctx.quorum) {
+                const first = failures[0].outcome.reason;
+                const message = first instanceof Error ? first.message : String(first);
+                if (ctx.quorum < ctx.roster.length) {
+                        stageEvents.push(`Quorum not met: ${answered} of ${ctx.quorum} required agents answered`);
+                }
+                await setSessionStatus(ctx.sessionId, "error", message);
+                throw new Error(message);
+        }
+        for (const { agent, outcome } of failures) {
+                const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+                await addMessage({
+                        sessionId: ctx.sessionId,
+                        role: "system",
+                        agentId: agent.id,
+                        content: `${agent.name} is absent from round ${round}: ${reason}`,
+                        meta: { stage: ABSENCE_STAGE, step, round, agentName: agent.name, reason },
+                });
+                stageEvents.push(`[${agent.name}] recorded absent; continuing with ${answered} of ${ctx.roster.length} agents`);
+        }
+}
+
+async function runProposeStep(ctx: StepContext): Promise<WorkflowStepResult> {
+        const { sessionId, agents, full, round, maxRounds } = ctx;
+        const stageEvents: string[] = [];
+        const userQuestion = full.messages.find((m) => m.role === "user")?.content ?? "";
+        const contextBudgets = deriveContextBudgets(userQuestion);
+        const artifactContextPromise = full.session?.artifact_id
+                ? buildArtifactContextText(full.session.artifact_id, {
+                          question: userQuestion,
+                          maxChars: contextBudgets.artifactTarget,
+                  })
+                : Promise.resolve(null);
+        const liveUrlContextPromise = full.session?.live_url
+                ? buildLiveUrlContext(full.session.live_url, contextBudgets.liveTarget)
+                : Promise.resolve(null);
+        const [artifactContextResult, liveUrlContextRaw] = await Promise.all([
+                artifactContextPromise,
+                liveUrlContextPromise,
+        ]);
+        let artifactContext = artifactContextResult?.text ?? null;
+        let liveUrlContext = liveUrlContextRaw;
+        if (artifactContextResult) {
+                stageEvents.push(
+                        `Artifact context (~${artifactContextResult.approxTokens.toLocaleString()} tokens from ${artifactContextResult.fileCount} files)`
+                );
+                if (artifactContextResult.truncated) {
+                        stageEvents.push("Artifact context truncated to stay under prompt budget");
+                }
+        }
+        stageEvents.push(
+                `Context budgets => artifact ${contextBudgets.artifactTarget.toLocaleString()} chars, live ${contextBudgets.liveTarget.toLocaleString()} chars`
+        );
+        const trimmedContext = rebalanceContextBudgets(artifactContext, liveUrlContext, contextBudgets);
+        artifactContext = trimmedContext.artifact;
+        liveUrlContext = trimmedContext.live;
+        if (trimmedContext.artifactTrimmed && artifactContext) {
+                stageEvents.push(`Artifact context trimmed to ${artifactContext.length.toLocaleString()} chars`);
+        }
+        if (trimmedContext.liveTrimmed && liveUrlContext) {
+                stageEvents.push(`Live snapshot trimmed to ${liveUrlContext.length.toLocaleString()} chars`);
+        }
+        const existing = proposalsForRound(full.messages, 1);
+        const concurrency = clampProposalConcurrency(full.session.settings?.proposalConcurrency);
+        stageEvents.push(`Gathering proposals with up to ${concurrency} agents in parallel`);
+        const outcomes = await mapSettledWithConcurrency(agents, concurrency, async (a) => {
+                const stored = existing.find((p) => p.agent_id === a.id);
+                if (stored) {
+                        stageEvents.push(`[${a.name}] proposal already stored as #${stored.id}`);
+                        return stored;
+                }
+                let chatResult: AgentChatResult | null = null;
+                const prompt = ctx.prompts.render(a, "proposal", {
+                        question: userQuestion,
+                        artifact_context: artifactContext,
+                        live_context: liveUrlContext,
+                        round: 1,
+                        findings_format: FINDINGS_FORMAT,
+                });
+                const systemPrompt = prompt.content.includes(FINDINGS_FORMAT)
+                        ? prompt.content
+                        : `${prompt.content}\n\n${FINDINGS_FORMAT}`;
+                const stream = beginAgentStream(ctx, stageEvents, "propose", 1, a);
+                const startedAt = new Date();
+                try {
+                        chatResult = await budgetedChat(
+                                ctx,
+                                a,
+                                [
+                                        { role: "system", content: systemPrompt },
+                                        { role: "user", content: userQuestion },
+                                ],
+                                { enableHttpTool: true, maxOutputTokens: FINDINGS_MAX_OUTPUT_TOKENS, ...stream.options }
+                        );
+                } catch (err: any) {
+                        const message = err?.message || "unknown error";
+                        stream.finish(message);
+                        stageEvents.push(`[${a.name}] proposal failed after ${formatDuration(Date.now() - startedAt.getTime())}: ${message}`);
+                        if (err instanceof BudgetExceededError) throw err;
+                        throw new Error(`${a.name} proposal failed: ${message}`);
+                }
+                const durationMs = Date.now() - startedAt.getTime();
+
+                const actualProvider = chatResult?.providerUsed ?? a.provider;
+                const reply = chatResult?.content?.trim() ?? "";
+
+                stream.finish(reply ? undefined : "empty response");
+                if (!reply) {
+                        stageEvents.push(`[${a.name}] proposal failed: empty response`);
+                        throw new Error(`${a.name} proposal returned empty response`);
+                }
+                const { content, findings } = extractFindings(a, reply, stageEvents);
+                const meta: Record<string, unknown> = {
+                        provider: a.provider,
+                        stage: "proposal",
+                        round: 1,
+                        fallback: false,
+                        actualProvider,
+                        actualModel: chatResult?.modelUsed ?? a.model,
+                        failover: chatResult?.failover ?? [],
+                        httpRequestCount: chatResult?.httpRequestCount ?? 0,
+                        startedAt: startedAt.toISOString(),
+                        durationMs,
+                        promptTemplate: prompt.template,
+                        findingCount: findings?.findings.length ?? null,
+                };
+                const failoverNote = describeFailover(a, chatResult);
+                if (failoverNote) stageEvents.push(failoverNote);
+                const message = await addMessage({
+                        sessionId,
+                        role: "agent_proposal",
+                        agentId: a.id,
+                        content,
+                        model: chatResult?.modelUsed ?? a.model ?? null,
+                        ...usageFields(chatResult),
+                        meta,
+                });
+                stageEvents.push(`[${a.name}] proposal stored as #${message.id} via ${actualProvider} in ${formatDuration(durationMs)}`);
+                await storeFindings(message, 1, findings, stageEvents);
+                return message;
+        });
+        await enforceQuorum(ctx, "propose", 1, outcomes, stageEvents);
+        const refreshedState = await getSessionFull(sessionId);
+        const proposals = refreshedState.messages.filter((m) => m.role === "agent_proposal");
+        stageEvents.push(`Total proposals recorded: ${proposals.length}`);
+        const diagnostics = buildDiagnostics({
+                step: "propose",
+                agents,
+                messages: refreshedState.messages,
+                votes: refreshedState.votes,
+                events: stageEvents,
+                round: { current: 1, max: maxRounds },
+                quorum: ctx.quorum,
+                concurrency,
+        });
+        return { status: 200, payload: { ok: true, next: "critique", proposals, diagnostics } };
+}
+
+async function runCritiqueStep(ctx: StepContext): Promise<WorkflowStepResult> {
+        const { sessionId, agents, full, round, maxRounds } = ctx;
+        const stageEvents: string[] = [];
+        const proposals = proposalsForRound(full.messages, round);
+        const existingCritiques = full.messages.filter((m) => m.role === "agent_critique");
+        const userQuestion = full.messages.find((m) => m.role === "user")?.content ?? "";
+        await Promise.all(
+                agents.flatMap((a) => {
+                        const targetableProposals = proposals.filter((p) => p.agent_id !== a.id);
+                        if (targetableProposals.length === 0) {
+                                stageEvents.push(`[${a.name}] skipped critique: no other proposals available`);
+                                return [] as Promise<unknown>[];
+                        }
+                        return targetableProposals.map(async (p) => {
+                                const stored = existingCritiques.find(
+                                        (c) => c.agent_id === a.id && readMetaNumber(normalizeMeta(c.meta), "targetMessageId") === p.id
+                                );
+                                if (stored) {
+                                        stageEvents.push(`[${a.name}] critique of proposal #${p.id} already stored as #${stored.id}`);
+                                        return stored;
+                                }
+                                const author = agents.find((x) => x.id === p.agent_id);
+                                const prompt = ctx.prompts.render(a, "critique", { question: userQuestion, round });
+                                let chatResult: AgentChatResult;
+                                const stream = beginAgentStream(ctx, stageEvents, "critique", round, a, p.id);
+                                try {
+                                        chatResult = await budgetedChat(
+                                                ctx,
+                                                a,
+                                                [
+                                                        { role: "system", content: prompt.content },
+                                                        { role: "user", content: `Proposal #${p.id}${author ? ` by ${author.name}` : ""}:\n\n${p.content}\n\nCritique it.` },
+                                                ],
+                                                stream.options
+                                        );
+                                } catch (err: any) {
+                                        stream.finish(err?.message || "unknown error");
+                                        if (ctx.signal?.aborted || err instanceof BudgetExceededError) throw err;
+                                        stageEvents.push(`[${a.name}] critique of proposal #${p.id} failed: ${err?.message || "unknown error"}`);
+                                        return null;
+                                }
+                                const content = chatResult.content.trim();
+                                stream.finish(content ? undefined : "empty response");
+                                if (!content) {
+                                        stageEvents.push(`[${a.name}] critique of proposal #${p.id} failed: empty response`);
+                                        return null;
+                                }
+                                const failoverNote = describeFailover(a, chatResult);
+                                if (failoverNote) stageEvents.push(failoverNote);
+                                const critique = await addMessage({
+                                        sessionId,
+                                        role: "agent_critique",
+                                        agentId: a.id,
+                                        content,
+                                        model: chatResult.modelUsed,
+                                        ...usageFields(chatResult),
+                                        meta: {
+                                                provider: a.provider,
+                                                stage: "critique",
+                                                round,
+                                                fallback: false,
+                                                targetMessageId: p.id,
+                                                actualProvider: chatResult.providerUsed,
+                                                actualModel: chatResult.modelUsed,
+                                                failover: chatResult.failover,
+                                                httpRequestCount: chatResult.httpRequestCount,
+                                                promptTemplate: prompt.template,
+                                        },
+                                });
+                                stageEvents.push(`[${a.name}] critique of proposal #${p.id} stored as #${critique.id}`);
+                                return critique;
+                        });
+                })
+        );
+        const refreshed = await getSessionFull(sessionId);
+        const critiques = refreshed.messages.filter((m) => m.role === "agent_critique");
+        stageEvents.push(`Total critiques recorded: ${critiques.length}`);
+        const diagnostics = buildDiagnostics({
+                step: "critique",
+                agents,
+                messages: refreshed.messages,
+                votes: refreshed.votes,
+                events: stageEvents,
+                round: { current: round, max: maxRounds },
+                quorum: ctx.quorum,
+        });
+        return { status: 200, payload: { ok: true, next: "vote", critiques, diagnostics } };
+}
+
+async function runVoteStep(ctx: StepContext): Promise<WorkflowStepResult> {
+        const { sessionId, agents, full, round, maxRounds } = ctx;
+        const stageEvents: string[] = [];
+        const proposals = proposalsForRound(full.messages, round);
+        const critiques = full.messages.filter((m) => m.role === "agent_critique");
+        const userQuestion = full.messages.find((m) => m.role === "user")?.content ?? "";
+        const rubric = normalizeRubric(full.session.settings?.rubric);
+        const rubricText = formatRubricInstructions(rubric);
+        const blind = full.session.settings?.blindVoting
+                ? createBlindBallot(blindSeedForRound(full.session.settings?.blindSeed, full.votes, round), round, proposals, agents)
+                : null;
+        if (blind) {
+                stageEvents.push(`Blind voting: proposals anonymized and shuffled with seed ${blind.seed}`);
+        }
+        await Promise.all(
+                agents.flatMap((a) => {
+                        const others = proposals.filter((p) => p.agent_id !== a.id);
+                        const targetableProposals = blind ? blind.order(a.id, others) : others;
+                        if (targetableProposals.length === 0) {
+                                stageEvents.push(`[${a.name}] skipped voting: no other proposals available`);
+                                return [] as Promise<unknown>[];
+                        }
+                        return targetableProposals.map(async (p, position) => {
+                                const stored = full.votes.find((v) => v.agent_id === a.id && v.target_message_id === p.id);
+                                if (stored) {
+                                        stageEvents.push(`[${a.name}] vote on proposal #${p.id} already stored`);
+                                        return stored;
+                                }
+                                let score = 50;
+                                let rationale = "";
+                                let criteria: MagiVoteCriterionScore[] | null = null;
+                                let fallbackUsed = false;
+                                let usage: ReturnType<typeof usageFields> = {};
+                                const prompt = ctx.prompts.render(a, "vote", { question: userQuestion, round, rubric: rubricText });
+                                // Templates written without {{rubric}} still need the reply format.
+                                const systemPrompt = prompt.content.includes(rubricText)
+                                        ? prompt.content
+                                        : `${prompt.content}\n\n${rubricText}`;
+                                const stream = beginAgentStream(ctx, stageEvents, "vote", round, a, p.id);
+                                try {
+                                        const chatResult = await budgetedChat(
+                                                ctx,
+                                                a,
+                                                [
+                                                        { role: "system", content: systemPrompt },
+                                                        {
+                                                                role: "user",
+                                                                content: blind
+                                                                        ? `${blind.aliases[String(p.id)]}:\n\n${blind.anonymize(p.content)}\n\n${formatCritiquesForProposal(p, critiques, agents, blind)}\n\nScore it.`
+                                                                        : `Proposal:\n\n${p.content}\n\n${formatCritiquesForProposal(p, critiques, agents)}\n\nScore it.`,
+                                                        },
+                                                ],
+                                                stream.options
+                                        );
+                                        stream.finish();
+                                        usage = usageFields(chatResult);
+                                        const parsed = parseJsonReply(chatResult.content);
+                                        criteria = parsed ? readRubricScores(parsed, rubric) : null;
+                                        if (parsed && criteria) {
+                                                score = weightedRubricTotal(criteria);
+                                                if (typeof parsed.reason === "string" && parsed.reason.trim()) {
+                                                        rationale = blind ? blind.restore(parsed.reason.trim()) : parsed.reason.trim();
+                                                }
+                                        } else {
+                                                fallbackUsed = true;
+                                                stageEvents.push(`[${a.name}] vote JSON parse fallback for proposal #${p.id}: unable to parse rubric scores`);
+                                                score = Math.max(30, Math.min(90, Math.round(Math.sqrt(p.content.length))));
+                                                rationale = `${a.name} heuristic score`;
+                                        }
+                                } catch (err: any) {
+                                        stream.finish(err?.message || "unknown error");
+                                        if (ctx.signal?.aborted || err instanceof BudgetExceededError) throw err;
+                                        fallbackUsed = true;
+                                        stageEvents.push(`[${a.name}] vote fallback for proposal #${p.id}: ${err?.message || "unknown error"}`);
+                                        score = Math.max(30, Math.min(90, Math.round(Math.sqrt(p.content.length))));
+                                        rationale = `${a.name} heuristic score (fallback)`;
+                                }
+                                const voteRecord = await addVote({
+                                        sessionId,
+                                        agentId: a.id,
+                                        targetMessageId: p.id,
+                                        score,
+                                        rationale,
+                                        criteria,
+                                        ...usage,
+                                        meta: {
+                                                round,
+                                                fallback: fallbackUsed,
+                                                promptTemplate: prompt.template,
+                                                ...(blind ? { blind: { seed: blind.seed, alias: blind.aliases[String(p.id)], position } } : {}),
+                                        },
+                                });
+                                stageEvents.push(`[${a.name}] scored proposal #${p.id} = ${score}${fallbackUsed ? " (fallback)" : ""}`);
+                                return voteRecord;
+                        });
+                })
+        );
+        const refreshed = await getSessionFull(sessionId);
+        stageEvents.push(`Total votes recorded: ${refreshed.votes.length}`);
+        const converged = debateConverged(refreshed.messages, refreshed.votes, round);
+        const next = round < maxRounds && !converged ? "revise" : "consensus";
+        if (converged) {
+                stageEvents.push(`Debate converged after round ${round}: scores moved less than the convergence threshold`);
+        } else if (next === "revise") {
+                stageEvents.push(`Round ${round} of ${maxRounds} complete; requesting revisions`);
+        }
+        const diagnostics = buildDiagnostics({
+                step: "vote",
+                agents,
+                messages: refreshed.messages,
+                votes: refreshed.votes,
+                events: stageEvents,
+                round: { current: round, max: maxRounds, converged },
+                quorum: ctx.quorum,
+                blind: blind ? { seed: blind.seed, round, aliases: blind.aliases } : undefined,
+        });
+        return { status: 200, payload: { ok: true, next, round, votes: refreshed.votes, diagnostics } };
+}
+
+async function runReviseStep(ctx: StepContext): Promise<WorkflowStepResult> {
+        const { sessionId, agents, full, round, maxRounds } = ctx;
+        const stageEvents: string[] = [];
+        const previous = proposalsForRound(full.messages, round);
+        const critiques = full.messages.filter((m) => m.role === "agent_critique");
+        const nextRound = round + 1;
+        const existing = proposalsForRound(full.messages, nextRound);
+        if (nextRound > maxRounds) {
+                return { status: 400, payload: { ok: false, error: `Debate already reached its ${maxRounds}-round limit` } };
+        }
+        const userQuestion = full.messages.find((m) => m.role === "user")?.content ?? "";
+        const concurrency = clampProposalConcurrency(full.session.settings?.proposalConcurrency);
+        const outcomes = await mapSettledWithConcurrency(agents, concurrency, async (a) => {
+                const own = previous.find((p) => p.agent_id === a.id);
+                if (!own) {
+                        stageEvents.push(`[${a.name}] skipped revision: no round ${round} proposal`);
+                        return null;
+                }
+                const stored = existing.find((p) => p.agent_id === a.id);
+                if (stored) {
+                        stageEvents.push(`[${a.name}] round ${nextRound} revision already stored as #${stored.id}`);
+                        return stored;
+                }
+                const peers = previous.filter((p) => p.id !== own.id);
+                const peerText = peers
+                        .map((p) => {
+                                const author = agents.find((x) => x.id === p.agent_id);
+                                return `Proposal #${p.id}${author ? ` by ${author.name}` : ""}:\n${p.content}`;
+                        })
+                        .join("\n\n");
+                const prompt = ctx.prompts.render(a, "revision", {
+                        question: userQuestion,
+                        round: nextRound,
+                        findings_format: FINDINGS_FORMAT,
+                });
+                const systemPrompt = prompt.content.includes(FINDINGS_FORMAT)
+                        ? prompt.content
+                        : `${prompt.content}\n\n${FINDINGS_FORMAT}`;
+                let chatResult: AgentChatResult;
+                const stream = beginAgentStream(ctx, stageEvents, "revise", nextRound, a);
+                const startedAt = new Date();
+                try {
+                        chatResult = await budgetedChat(ctx, a, [
+                                { role: "system", content: systemPrompt },
+                                {
+                                        role: "user",
+                                        content: `Original question:\n${userQuestion}\n\nYour round ${round} proposal (#${own.id}):\n${own.content}\n\n${formatCritiquesForProposal(own, critiques, agents)}\n\nPeer proposals:\n${peerText || "none recorded."}\n\nWrite your revised proposal.`,
+                                },
+                        ], { maxOutputTokens: FINDINGS_MAX_OUTPUT_TOKENS, ...stream.options });
+                } catch (err: any) {
+                        const message = err?.message || "unknown error";
+                        stream.finish(message);
+                        stageEvents.push(`[${a.name}] revision failed after ${formatDuration(Date.now() - startedAt.getTime())}: ${message}`);
+                        if (err instanceof BudgetExceededError) throw err;
+                        throw new Error(`${a.name} revision failed: ${message}`);
+                }
+                const durationMs = Date.now() - startedAt.getTime();
+                const reply = chatResult.content.trim();
+                stream.finish(reply ? undefined : "empty response");
+                if (!reply) {
+                        stageEvents.push(`[${a.name}] revision failed: empty response`);
+                        throw new Error(`${a.name} revision returned empty response`);
+                }
+                const { content, findings } = extractFindings(a, reply, stageEvents);
+                const failoverNote = describeFailover(a, chatResult);
+                if (failoverNote) stageEvents.push(failoverNote);
+                const message = await addMessage({
+                        sessionId,
+                        role: "agent_proposal",
+                        agentId: a.id,
+                        content,
+                        model: chatResult.modelUsed,
+                        ...usageFields(chatResult),
+                        meta: {
+                                provider: a.provider,
+                                stage: "revision",
+                                round: nextRound,
+                                revisionOf: own.id,
+                                fallback: false,
+                                actualProvider: chatResult.providerUsed,
+                                actualModel: chatResult.modelUsed,
+                                failover: chatResult.failover,
+                                httpRequestCount: chatResult.httpRequestCount,
+                                startedAt: startedAt.toISOString(),
+                                durationMs,
+                                promptTemplate: prompt.template,
+                                findingCount: findings?.findings.length ?? null,
+                        },
+                });
+                stageEvents.push(
+                        `[${a.name}] round ${nextRound} revision of #${own.id} stored as #${message.id} in ${formatDuration(durationMs)}`
+                );
+                await storeFindings(message, nextRound, findings, stageEvents);
+                return message;
+        });
+        await enforceQuorum(ctx, "revise", nextRound, outcomes, stageEvents);
+        const refreshed = await getSessionFull(sessionId);
+        const proposals = proposalsForRound(refreshed.messages, nextRound);
+        stageEvents.push(`Round ${nextRound} proposals recorded: ${proposals.length}`);
+        const diagnostics = buildDiagnostics({
+                step: "revise",
+                agents,
+                messages: refreshed.messages,
+                votes: refreshed.votes,
+                events: stageEvents,
+                round: { current: nextRound, max: maxRounds },
+                quorum: ctx.quorum,
+                concurrency,
+        });
+        return { status: 200, payload: { ok: true, next: "critique", round: nextRound, proposals, diagnostics } };
+}
+
+/**
+ * Ask every roster agent to approve, reject or abstain on the proposition
+ * after reading the consensus report. Ballots are stored as system messages,
+ * so a retried step reuses them; an agent that fails counts as abstaining.
+ */
+async function collectVerdict(
+        ctx: StepContext,
+        settings: MagiVerdictSettings,
+        question: string,
+        report: string,
+        messages: MagiMessage[],
+        stageEvents: string[]
+): Promise<MagiVerdictResult> {
+        const ballots = await Promise.all(
+                ctx.agents.map(async (a): Promise<MagiVerdictBallot> => {
+                        const stored = messages.find(
+                                (m) => m.role === "system" && m.agent_id === a.id && normalizeMeta(m.meta).stage === VERDICT_STAGE
+                        );
+                        if (stored) {
+                                const meta = normalizeMeta(stored.meta);
+                                stageEvents.push(`[${a.name}] verdict already stored as #${stored.id}`);
+                                return {
+                                        agentId: a.id,
+                                        choice: readVerdictChoice({ verdict: meta.choice }) ?? "abstain",
+                                        reason: stored.content,
+                                        fallback: meta.fallback === true,
+                                };
+                        }
+                        const prompt = ctx.prompts.render(a, "verdict", {
+                                question,
+                                round: ctx.round,
+                                proposition: settings.proposition,
+                        });
+                        const systemPrompt = prompt.content.includes(VERDICT_FORMAT)
+                                ? prompt.content
+                                : `${prompt.content}\n\n${VERDICT_FORMAT}`;
+                        let choice: MagiVerdictChoice = "abstain";
+                        let reason = "";
+                        let fallback = false;
+                        let usage: ReturnType<typeof usageFields> = {};
+                        const stream = beginAgentStream(ctx, stageEvents, "consensus", ctx.round, a);
+                        try {
+                                const chatResult = await budgetedChat(
+                                        ctx,
+                                        a,
+                                        [
+                                                { role: "system", content: systemPrompt },
+                                                {
+                                                        role: "user",
+                                                        content: `Original question:\n${question}\n\nConsensus report:\n${report}\n\nProposition: ${settings.proposition}`,
+                                                },
+                                        ],
+                                        stream.options
+                                );
+                                stream.finish();
+                                usage = usageFields(chatResult);
+                                const parsed = parseJsonReply(chatResult.content);
+                                const read = readVerdictChoice(parsed);
+                                if (read) {
+                                        choice = read;
+                                        reason = typeof parsed?.reason === "string" ? parsed.reason.trim() : "";
+                                } else {
+                                        fallback = true;
+                                        reason = "Unreadable verdict; counted as abstain";
+                                        stageEvents.push(`[${a.name}] verdict parse fallback: no approve, reject or abstain found`);
+                                }
+                        } catch (err: any) {
+                                stream.finish(err?.message || "unknown error");
+                                if (ctx.signal?.aborted || err instanceof BudgetExceededError) throw err;
+                                fallback = true;
+                                reason = `No verdict: ${err?.message || "unknown error"}`;
+                                stageEvents.push(`[${a.name}] verdict fallback: ${err?.message || "unknown error"}`);
+                        }
+                        const message = await addMessage({
+                                sessionId: ctx.sessionId,
+                                role: "system",
+                                agentId: a.id,
+                                content: reason || choice,
+                                ...usage,
+                                meta: {
+                                        stage: VERDICT_STAGE,
+                                        round: ctx.round,
+                                        choice,
+                                        fallback,
+                                        proposition: settings.proposition,
+                                        promptTemplate: prompt.template,
+                                },
+                        });
+                        stageEvents.push(`[${a.name}] verdict ${choice}${fallback ? " (fallback)" : ""} stored as #${message.id}`);
+                        return { agentId: a.id, choice, reason, fallback };
+                })
+        );
+        const { outcome, explanation } = resolveVerdict(ballots, settings.rule, ctx.roster.length);
+        stageEvents.push(`Verdict: ${outcome}. ${explanation}`);
+        return { proposition: settings.proposition, rule: settings.rule, outcome, ballots, explanation };
+}
+
+async function runConsensusStep(ctx: StepContext): Promise<WorkflowStepResult> {
+        const { sessionId, agents, full, round, maxRounds } = ctx;
+        const stageEvents: string[] = [];
+        const fresh = await getSessionFull(sessionId);
+        const proposals = proposalsForRound(fresh.messages, round);
+        const agentWeights = normalizeAgentWeights(full.session.settings?.agentWeights);
+        const calibrationMode = normalizeScoreCalibration(full.session.settings?.scoreCalibration);
+        let tallied = fresh.votes;
+        let calibration: MagiCalibrationDiagnostics | undefined;
+        if (calibrationMode !== "none") {
+                // "session" compares each agent with itself in this session only;
+                // "history" uses its recent votes from every session.
+                const sample =
+                        calibrationMode === "history"
+                                ? await listRecentVotes(
+                                          agents.map((a) => a.id),
+                                          CALIBRATION_HISTORY_LIMIT
+                                  )
+                                : fresh.votes;
+                const baselines = scoreBaselines(sample);
+                tallied = calibrateVotes(fresh.votes, baselines);
+                calibration = calibrationDiagnostics({
+                        mode: calibrationMode,
+                        baselines,
+                        proposals,
+                        raw: fresh.votes,
+                        calibrated: tallied,
+                        weights: agentWeights,
+                });
+                stageEvents.push(
+                        `Scores calibrated per agent (${calibrationMode}): ${baselines
+                                .map((b) => `${agents.find((a) => a.id === b.agentId)?.name ?? b.agentId} mean ${b.mean} sd ${b.stdDev} over ${b.samples}`)
+                                .join("; ")}`
+                );
+        }
+        const voting = tallyVotes({
+                proposals,
+                votes: tallied,
+                scheme: normalizeVotingScheme(full.session.settings?.votingScheme),
+                weights: agentWeights,
+        });
+        const totals = new Map<number, number>(voting.standings.map((s) => [s.proposalId, s.score]));
+        const winner = proposals.find((p) => p.id === voting.winnerProposalId);
+        const best: { msg: MagiMessage; score: number } | null = winner
+                ? { msg: winner, score: totals.get(winner.id) ?? 0 }
+                : null;
+        stageEvents.push(...voting.explanation);
+        const proposalIds = new Set(proposals.map((p) => p.id));
+        const roundFindings = fresh.findings.filter((f) => proposalIds.has(f.message_id));
+        const findings = roundFindings.length > 0 ? clusterFindings(roundFindings, ctx.roster) : undefined;
+        if (findings) {
+                stageEvents.push(
+                        `${roundFindings.length} findings grouped into ${findings.clusters.length} issues; ${findings.clusters.filter((c) => c.agreement > 1).length} reported by more than one agent`
+                );
+        }
+        const dissent = buildDissentReport({
+                proposals,
+                votes: fresh.votes,
+                findings: roundFindings,
+                clusters: findings?.clusters ?? [],
+        });
+        if (dissent.length > 0) {
+                stageEvents.push(`Minority report: ${dissent.length} point${dissent.length === 1 ? "" : "s"}`);
+        }
+        let finalMessageId: number | null = null;
+        let verdict: MagiVerdictResult | undefined;
+        if (best) {
+                const weights: Record<string, number> = {};
+                for (const p of proposals) {
+                        weights[String(p.id)] = totals.get(p.id) || 0;
+                }
+                let content = best.msg.content;
+                let synthesisUsage: ReturnType<typeof usageFields> = {};
+                let provenance: MagiConsensusProvenance = {
+                        mode: "select",
+                        synthesizerAgentId: null,
+                        weights,
+                        votingScheme: voting.scheme,
+                        points: [{ index: 1, text: best.msg.content, sourceMessageIds: [best.msg.id] }],
+                        findings,
+                        dissent,
+                };
+                if (full.session.settings?.consensusMode === "synthesize" && proposals.length > 1) {
+                        const requestedId = full.session.settings?.synthesizerAgentId ?? null;
+                        const synthesizer =
+                                agents.find((a) => a.id === requestedId) ??
+                                agents.find((a) => a.id === best!.msg.agent_id) ??
+                                agents[0];
+                        const question = fresh.messages.find((m) => m.role === "user")?.content ?? "";
+                        const prompt = buildSynthesisPrompt(
+                                synthesizer,
+                                question,
+                                proposals.map((p) => ({
+                                        message: p,
+                                        author: agents.find((a) => a.id === p.agent_id) ?? null,
+                                        score: totals.get(p.id) || 0,
+                                }))
+                        );
+                        const stream = beginAgentStream(ctx, stageEvents, "consensus", round, synthesizer);
+                        try {
+                                const chatResult = await budgetedChat(
+                                        ctx,
+                                        synthesizer,
+                                        [
+                                                { role: "system", content: prompt.system },
+                                                { role: "user", content: prompt.user },
+                                        ],
+                                        stream.options
+                                );
+                                stream.finish();
+                                const merged = chatResult.content.trim();
+                                const points = parseSynthesisPoints(merged, new Set(proposals.map((p) => p.id)));
+                                if (!merged || !points.some((pt) => pt.sourceMessageIds.length > 0)) {
+                                        throw new Error("synthesis did not cite any proposals");
+                                }
+                                content = merged;
+                                synthesisUsage = usageFields(chatResult);
+                                provenance = {
+                                        mode: "synthesize",
+                                        synthesizerAgentId: synthesizer.id,
+                                        weights,
+                                        votingScheme: voting.scheme,
+                                        points,
+                                        findings,
+                                        dissent,
+                                };
+                                stageEvents.push(
+                                        `[${synthesizer.name}] synthesized ${points.length} points via ${chatResult.providerUsed}`
+                                );
+                        } catch (err: any) {
+                                stream.finish(err?.message || "unknown error");
+                                if (ctx.signal?.aborted || err instanceof BudgetExceededError) throw err;
+                                stageEvents.push(
+                                        `[${synthesizer.name}] synthesis fallback to top proposal: ${err?.message || "unknown error"}`
+                                );
+                        }
+                }
+                const sourceMessageIds = Array.from(
+                        new Set(provenance.points.flatMap((pt) => pt.sourceMessageIds))
+                );
+                if (findings && findings.clusters.length > 0) {
+                        content = `${content}\n\n${formatFindingClusters(findings.clusters, agents)}`;
+                }
+                if (dissent.length > 0) {
+                        content = `${content}\n\n${formatDissentReport(dissent, agents)}`;
+                }
+                const absent = absentAgents(fresh.messages);
+                const absenceNote = formatAbsenceNote(absent, ctx.roster.length);
+                if (absenceNote) {
+                        content = `${content}\n\n${absenceNote}`;
+                        stageEvents.push(absenceNote);
+                }
+                const verdictSettings = normalizeVerdictSettings(full.session.settings?.verdict);
+                if (verdictSettings) {
+                        const question = fresh.messages.find((m) => m.role === "user")?.content ?? "";
+                        verdict = await collectVerdict(ctx, verdictSettings, question, content, fresh.messages, stageEvents);
+                        provenance = { ...provenance, verdict };
+                        content = `${content}\n\n${formatVerdict(verdict, agents)}`;
+                }
+                ctx.signal?.throwIfAborted();
+                const consensusMsg = await addMessage({
+                        sessionId,
+                        role: "consensus" as MagiMessageKind,
+                        content,
+                        agentId: null,
+                        ...synthesisUsage,
+                        meta: {
+                                fromMessageId: best.msg.id,
+                                totalScore: best.score,
+                                votingScheme: voting.scheme,
+                                stage: "consensus",
+                                round,
+                                mode: provenance.mode,
+                                synthesizerAgentId: provenance.synthesizerAgentId,
+                                sourceMessageIds,
+                                absentAgents: absent,
+                                verdict: verdict?.outcome ?? null,
+                        },
+                });
+                finalMessageId = consensusMsg.id;
+                stageEvents.push(
+                        provenance.mode === "synthesize"
+                                ? `Consensus synthesized from proposals ${sourceMessageIds.map((id) => `#${id}`).join(", ")} as message #${consensusMsg.id}`
+                                : `Consensus selected proposal #${best.msg.id} (${voting.scheme} score ${best.score}) as message #${consensusMsg.id}`
+                );
+                await upsertConsensus({ sessionId, finalMessageId, summary: content, provenance });
+                // A cancel that landed during the stage keeps the session cancelled.
+                ctx.signal?.throwIfAborted();
+                await setSessionStatus(sessionId, verdict?.outcome ?? "consensus");
+        } else {
+                stageEvents.push("Consensus failed: no proposals available.");
+                ctx.signal?.throwIfAborted();
+                await setSessionStatus(sessionId, "error", "No proposals available for consensus");
+        }
+        const refreshed = await getSessionFull(sessionId);
+        const finalMessage = refreshed.messages.find((m) => m.id === finalMessageId) || null;
+        const diagnostics = buildDiagnostics({
+                step: "consensus",
+                agents,
+                messages: refreshed.messages,
+                votes: refreshed.votes,
+                events: stageEvents,
+                round: { current: round, max: maxRounds },
+                quorum: ctx.quorum,
+                winning: best ? { id: best.msg.id, score: best.score } : null,
+                voting,
+                calibration,
+                verdict,
+                findings,
+                dissent,
+                consensusMessageId: finalMessageId,
+        });
+        return { status: 200, payload: { ok: true, finalMessageId, finalMessage, diagnostics } };
+}
+
+type StepLedger = MagiStepRecord[];
+
+function completedStep(ledger: StepLedger, step: MagiWorkflowStep, round: number): MagiStepRecord | null {
+        return ledger.find((e) => e.step === step && e.round === round && e.status === "complete") ?? null;
+}
+
+function highestCompletedRound(ledger: StepLedger, steps: MagiWorkflowStep[]): number {
+        let round = 0;
+        for (const e of ledger) {
+                if (e.status === "complete" && steps.includes(e.step)) round = Math.max(round, e.round);
+        }
+        return round;
+}
+
+/**
+ * Work out which round a step request belongs to and whether the steps it
+ * depends on have completed. Returns a reason string when the request is out
+ * of order.
+ */
+function resolveStepRound(
+        step: MagiWorkflowStep,
+        ledger: StepLedger
+): { round: number; blockedBy: string | null } {
+        const proposalRound = Math.max(1, highestCompletedRound(ledger, ["propose", "revise"]));
+        const proposalsDone = (round: number) => completedStep(ledger, round === 1 ? "propose" : "revise", round);
+        switch (step) {
+                case "propose":
+                        return { round: 1, blockedBy: null };
+                case "critique":
+                        return {
+                                round: proposalRound,
+                                blockedBy: proposalsDone(proposalRound) ? null : `proposals for round ${proposalRound} are not complete`,
+                        };
+                case "vote":
+                        return {
+                                round: proposalRound,
+                                blockedBy: completedStep(ledger, "critique", proposalRound)
+                                        ? null
+                                        : `critiques for round ${proposalRound} are not complete`,
+                        };
+                case "revise": {
+                        const votedRound = highestCompletedRound(ledger, ["vote"]);
+                        if (votedRound === 0) return { round: 2, blockedBy: "no vote has completed yet" };
+                        const round = votedRound + 1;
+                        if (completedStep(ledger, "revise", round)) return { round, blockedBy: null };
+                        const vote = completedStep(ledger, "vote", votedRound);
+                        const next = vote?.result?.next;
+                        return {
+                                round,
+                                blockedBy: next === "revise" ? null : `round ${votedRound} vote did not call for a revision`,
+                        };
+                }
+                case "consensus":
+                        return {
+                                round: proposalRound,
+                                blockedBy: completedStep(ledger, "vote", proposalRound)
+                                        ? null
+                                        : `votes for round ${proposalRound} are not complete`,
+                        };
+        }
+        return { round: proposalRound, blockedBy: null };
+}
+
+function legacyStepRound(step: MagiWorkflowStep, messages: MagiMessage[]): number {
+        if (step === "propose") return 1;
+        const round = Math.max(1, latestRound(messages));
+        return step === "revise" ? round + 1 : round;
+}
+
+// Ledger slots (session:step:round) whose step is running in this process.
+const globalSteps = globalThis as typeof globalThis & { __magiActiveSteps?: Set<string> };
+const activeSteps = globalSteps.__magiActiveSteps ?? (globalSteps.__magiActiveSteps = new Set());
+
+/**
+ * Execute one workflow step against a session and return the JSON payload the
+ * step route responds with. Shared by the step route and the server-side run
+ * job so both paths behave identically.
+ *
+ * Every step is recorded in the `magi_steps` ledger. A step that already
+ * completed replays its stored payload without calling any provider, a step
+ * that another caller is running returns 409, and a step requested before its
+ * prerequisites finished returns 409 with the reason. A session that has used
+ * up one of its budgets returns 402 before any provider is called.
+ */
+export async function runWorkflowStep(
+        sessionId: string,
+        step: MagiWorkflowStep,
+        keys: ProviderKeyMap,
+        signal?: AbortSignal
+): Promise<WorkflowStepResult> {
+        if (!WORKFLOW_STEPS.includes(step)) {
+                return { status: 400, payload: { ok: false, error: "Invalid step" } };
+        }
+
+        const full = await getSessionFull(sessionId);
+        if (!full.session) {
+                return { status: 404, payload: { ok: false, error: "Session not found" } };
+        }
+        const agents = full.agents;
+        if (full.session.status === "cancelled") {
+                return { status: 409, payload: { ok: false, error: "Session was cancelled" } };
+        }
+
+        const ledger = await listSteps(sessionId);
+        // Sessions that ran before the ledger existed have messages but no
+        // entries; let them continue without ordering checks.
+        const legacy = ledger.length === 0 && latestRound(full.messages) > 0;
+        const { round: stepRound, blockedBy } = legacy
+                ? { round: legacyStepRound(step, full.messages), blockedBy: null }
+                : resolveStepRound(step, ledger);
+
+        const done = completedStep(ledger, step, stepRound);
+        if (done) {
+                return { status: 200, payload: { ...(done.result ?? { ok: true }), replayed: true } };
+        }
+        if (blockedBy) {
+                return { status: 409, payload: { ok: false, error: `Step ${step} is out of order: ${blockedBy}` } };
+        }
+
+        const budgetWindows = await loadBudgetWindows(full.session, full);
+        const exhausted = budgetViolation(budgetWindows);
+        if (exhausted) {
+                return { status: 402, payload: { ok: false, error: exhausted.message, budgetScope: exhausted.scope } };
+        }
+
+        const slot = `${sessionId}:${step}:${stepRound}`;
+        const inProgress = {
+                status: 409,
+                payload: { ok: false, error: `Step ${step} for round ${stepRound} is already in progress`, inProgress: true },
+        };
+        // claimStep hands a slot older than JOB_STALL_AFTER_MS to the next
+        // caller; one whose runner is still going in this process never is.
+        if (activeSteps.has(slot)) return inProgress;
+        const claim = await claimStep(sessionId, step, stepRound, new Date(Date.now() - JOB_STALL_AFTER_MS));
+        if (!claim) return inProgress;
+
+        activeSteps.add(slot);
+        try {
+                const ctx: StepContext = {
+                        sessionId,
+                        keys,
+                        agents: presentAgents(agents, absentAgents(full.messages)),
+                        roster: agents,
+                        quorum: resolveQuorum(full.session.settings?.quorum, agents.length),
+                        full: { ...full, session: full.session },
+                        round: step === "revise" ? stepRound - 1 : stepRound,
+                        maxRounds: clampDebateRounds(full.session.settings?.debateRounds),
+                        signal,
+                        budget: createBudgetGuard(budgetWindows),
+                        prompts: createPromptSet(await listPromptTemplates()),
+                };
+
+                publishSessionEvent(sessionId, { type: "stage", step, round: stepRound, status: "started" });
+                let result: WorkflowStepResult;
+                try {
+                        result = await dispatchStep(step, ctx);
+                } catch (err: any) {
+                        publishSessionEvent(sessionId, {
+                                type: "stage",
+                                step,
+                                round: stepRound,
+                                status: "failed",
+                                error: err?.message || "Unexpected error",
+                        });
+                        await updateStep(claim.id, {
+                                status: "failed",
+                                error: err?.message || "Unexpected error",
+                                completed_at: new Date().toISOString(),
+                        });
+                        if (err instanceof BudgetExceededError) {
+                                await setSessionStatus(sessionId, "error", err.message);
+                                return { status: 402, payload: { ok: false, error: err.message, budgetScope: err.scope } };
+                        }
+                        throw err;
+                }
+                const ok = result.status === 200 && result.payload.ok !== false;
+                publishSessionEvent(
+                        sessionId,
+                        ok
+                                ? { type: "stage", step, round: stepRound, status: "complete" }
+                                : { type: "stage", step, round: stepRound, status: "failed", error: String(result.payload.error ?? "") }
+                );
+                await updateStep(claim.id, {
+                        status: ok ? "complete" : "failed",
+                        result: ok ? result.payload : null,
+                        error: ok ? null : String(result.payload.error ?? `Step returned ${result.status}`),
+                        completed_at: new Date().toISOString(),
+                });
+                return result;
+        } finally {
+                activeSteps.delete(slot);
+        }
+}
+
+function dispatchStep(step: MagiWorkflowStep, ctx: StepContext): Promise<WorkflowStepResult> {
+        switch (step) {
+                case "propose":
+                        return runProposeStep(ctx);
+                case "critique":
+                        return runCritiqueStep(ctx);
+                case "vote":
+                        return runVoteStep(ctx);
+                case "revise":
+                        return runReviseStep(ctx);
+                case "consensus":
+                        return runConsensusStep(ctx);
+        }
+        return Promise.resolve({ status: 400, payload: { ok: false, error: "Unsupported step" } });
+}
@@ -0,0 +1,177 @@
+import { addUsage, emptyUsage } from "@/lib/magiUsage";
+import type { MagiTokenUsage } from "@/lib/magiTypes";
+import {
+        fetchWithRetry,
+        HTTP_TOOL_DESCRIPTION,
+        HTTP_TOOL_NAME,
+        HTTP_TOOL_PARAMETERS,
+        pingModelsEndpoint,
+        ProviderRequestError,
+        readJsonEvents,
+        runHttpToolCall,
+        throwForStatus,
+} from "@/lib/providers/shared";
+import type { ProviderAdapter } from "@/lib/providers/types";
+
+const ANTHROPIC_API = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+// The Messages API requires max_tokens; used when the caller sets no cap.
+const DEFAULT_MAX_TOKENS = 400;
+
+// Cache reads and writes are reported separately from input_tokens.
+function readAnthropicUsage(raw: any): MagiTokenUsage | null {
+        if (!raw || typeof raw !== "object") return null;
+        const cacheRead = Number(raw.cache_read_input_tokens) || 0;
+        const cacheWrite = Number(raw.cache_creation_input_tokens) || 0;
+        return {
+                promptTokens: (Number(raw.input_tokens) || 0) + cacheRead + cacheWrite,
+                completionTokens: Number(raw.output_tokens) || 0,
+                cachedTokens: cacheRead,
+        };
+}
+
+/**
+ * Rebuild the content blocks of a streamed message so the tool loop can treat
+ * it exactly like a non-streamed response.
+ */
+async function readAnthropicStream(
+        res: Response,
+        onDelta: (text: string) => void
+): Promise<{ blocks: any[]; usage: MagiTokenUsage | null }> {
+        const blocks: any[] = [];
+        const usage = emptyUsage();
+        let reportedUsage = false;
+        const partialJson: Record<number, string> = {};
+        for await (const data of readJsonEvents(res)) {
+                if (data?.type === "error") {
+                        throw new ProviderRequestError(
+                                `anthropic stream error: ${data?.error?.message || "unknown"}`,
+                                "anthropic",
+                                data?.error?.type === "overloaded_error" ? 529 : 500
+                        );
+                }
+                // message_start carries the input counts; message_delta the running output count.
+                if (data?.type === "message_start" && data.message?.usage) {
+                        Object.assign(usage, readAnthropicUsage(data.message.usage));
+                        reportedUsage = true;
+                } else if (data?.type === "message_delta" && data.usage) {
+                        usage.completionTokens = Number(data.usage.output_tokens) || usage.completionTokens;
+                        reportedUsage = true;
+                }
+                const index = typeof data?.index === "number" ? data.index : -1;
+                if (data?.type === "content_block_start" && index >= 0) {
+                        blocks[index] = { ...data.content_block };
+                        if (blocks[index].type === "text" && typeof blocks[index].text !== "string") blocks[index].text = "";
+                } else if (data?.type === "content_block_delta" && blocks[index]) {
+                        if (data.delta?.type === "text_delta" && typeof data.delta.text === "string") {
+                                blocks[index].text += data.delta.text;
+                                onDelta(data.delta.text);
+                        } else if (data.delta?.type === "input_json_delta" && typeof data.delta.partial_json === "string") {
+                                partialJson[index] = (partialJson[index] ?? "") + data.delta.partial_json;
+                        }
+                } else if (data?.type === "content_block_stop" && blocks[index]?.type === "tool_use") {
+                        try {
+                                blocks[index].input = partialJson[index] ? JSON.parse(partialJson[index]) : {};
+                        } catch {
+                                blocks[index].input = {};
+                        }
+                }
+        }
+        return { blocks: blocks.filter(Boolean), usage: reportedUsage ? usage : null };
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+        id: "anthropic",
+        label: "Anthropic",
+        keyNames: ["anthropic"],
+        timeoutMs: 45_000,
+        // Anthropic sheds load with 529 and its per-minute limits reset slowly,
+        // so it gets more patience than the OpenAI-compatible endpoints.
+        retryPolicy: { maxAttempts: 4, baseDelayMs: 1_000, maxDelayMs: 15_000 },
+        customEndpoints: false,
+        extractUsage: readAnthropicUsage,
+        httpToolDefinition() {
+                return { name: HTTP_TOOL_NAME, description: HTTP_TOOL_DESCRIPTION, input_schema: HTTP_TOOL_PARAMETERS };
+        },
+        ping(apiKey, signal) {
+                return pingModelsEndpoint(
+                        `${ANTHROPIC_API}/models`,
+                        { "x-api-key": apiKey, "anthropic-version": ANTHROPIC_VERSION },
+                        signal
+                );
+        },
+        async chat({ apiKey, model, messages, userLabel, enableHttpTool, onDelta, onToolCall, onRetry, maxOutputTokens, beforeTurn, onTurnUsage, signal }) {
+                const systemPrompt = messages.find((m) => m.role === "system")?.content;
+                const conversation: any[] = messages
+                        .filter((m) => m.role !== "system")
+                        .map((m) => ({
+                                role: m.role === "assistant" ? "assistant" : "user",
+                                content: [{ type: "text", text: m.content }],
+                        }));
+                const tools = enableHttpTool ? [anthropicAdapter.httpToolDefinition()] : undefined;
+                let toolCalls = 0;
+                let usage = emptyUsage();
+                while (true) {
+                        const payload: Record<string, unknown> = {
+                                model,
+                                max_tokens: maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+                                messages: conversation,
+                                temperature: 0.3,
+                        };
+                        if (systemPrompt) payload.system = systemPrompt;
+                        if (onDelta) payload.stream = true;
+                        if (tools) payload.tools = tools;
+                        if (userLabel) payload.metadata = { user_id: userLabel };
+                        beforeTurn?.();
+                        const res = await fetchWithRetry(
+                                anthropicAdapter,
+                                `${ANTHROPIC_API}/messages`,
+                                {
+                                        method: "POST",
+                                        headers: {
+                                                "x-api-key": apiKey,
+                                                "anthropic-version": ANTHROPIC_VERSION,
+                                                "Content-Type": "application/json",
+                                        },
+                                        body: JSON.stringify(payload),
+                                        signal,
+                                },
+                                onRetry
+                        );
+                        if (!res.ok) await throwForStatus(anthropicAdapter, res);
+                        let contentBlocks: any[];
+                        let turnUsage: MagiTokenUsage | null;
+                        if (onDelta) {
+                                const streamed = await readAnthropicStream(res, onDelta);
+                                contentBlocks = streamed.blocks;
+                                turnUsage = streamed.usage;
+                        } else {
+                                const data = await res.json();
+                                contentBlocks = Array.isArray(data?.content) ? data.content : [];
+                                turnUsage = readAnthropicUsage(data?.usage);
+                        }
+                        usage = addUsage(usage, turnUsage);
+                        if (turnUsage) onTurnUsage?.(turnUsage);
+                        conversation.push({ role: "assistant", content: contentBlocks });
+                        const toolUses = tools
+                                ? contentBlocks.filter((block) => block && block.type === "tool_use" && block.name === HTTP_TOOL_NAME)
+                                : [];
+                        if (toolUses.length > 0) {
+                                for (const toolUse of toolUses) {
+                                        toolCalls += 1;
+                                        const content = await runHttpToolCall(toolUse?.input ?? {}, toolCalls, onToolCall, signal);
+                                        conversation.push({
+                                                role: "user",
+                                                content: [{ type: "tool_result", tool_use_id: toolUse.id, content }],
+                                        });
+                                }
+                                continue;
+                        }
+                        const textBlocks = contentBlocks
+                                .filter((block) => block && block.type === "text" && typeof block.text === "string")
+                                .map((block) => block.text.trim())
+                                .filter(Boolean);
+                        return { content: textBlocks.join("\n\n"), httpRequests: toolCalls, usage };
+                }
+        },
+};
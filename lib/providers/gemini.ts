@@ -0,0 +1,162 @@
+import { addUsage, emptyUsage } from "@/lib/magiUsage";
+import type { MagiTokenUsage } from "@/lib/magiTypes";
+import {
+        fetchWithRetry,
+        HTTP_TOOL_DESCRIPTION,
+        HTTP_TOOL_NAME,
+        HTTP_TOOL_PARAMETERS,
+        pingModelsEndpoint,
+        readJsonEvents,
+        runHttpToolCall,
+        throwForStatus,
+} from "@/lib/providers/shared";
+import type { ProviderAdapter } from "@/lib/providers/types";
+
+const GEMINI_API = "https://generativelanguage.googleapis.com/v1beta";
+
+// Gemini function schemas reject `additionalProperties`, so headers travel as
+// a JSON string and are parsed back before the relay request.
+const GEMINI_HTTP_TOOL_PARAMETERS = {
+        ...HTTP_TOOL_PARAMETERS,
+        properties: {
+                ...HTTP_TOOL_PARAMETERS.properties,
+                headers: {
+                        type: "string",
+                        description: 'Optional headers as a JSON object string, e.g. {"Accept": "application/json"}.',
+                },
+        },
+};
+
+// cachedContentTokenCount is part of promptTokenCount; thinking tokens bill as output.
+function readGeminiUsage(raw: any): MagiTokenUsage | null {
+        if (!raw || typeof raw !== "object") return null;
+        return {
+                promptTokens: Number(raw.promptTokenCount) || 0,
+                completionTokens: (Number(raw.candidatesTokenCount) || 0) + (Number(raw.thoughtsTokenCount) || 0),
+                cachedTokens: Number(raw.cachedContentTokenCount) || 0,
+        };
+}
+
+function toolArgs(raw: any): Record<string, unknown> {
+        const args = raw && typeof raw === "object" ? { ...raw } : {};
+        if (typeof args.headers === "string") {
+                try {
+                        args.headers = JSON.parse(args.headers);
+                } catch {
+                        delete args.headers;
+                }
+        }
+        return args;
+}
+
+/** Join the parts of a streamed response; function calls arrive whole. */
+async function readGeminiStream(
+        res: Response,
+        onDelta: (text: string) => void
+): Promise<{ parts: any[]; usage: MagiTokenUsage | null }> {
+        const parts: any[] = [];
+        let text = "";
+        let usage: MagiTokenUsage | null = null;
+        for await (const chunk of readJsonEvents(res)) {
+                // Every chunk repeats the running totals, so the last one wins.
+                if (chunk?.usageMetadata) usage = readGeminiUsage(chunk.usageMetadata);
+                for (const part of chunk?.candidates?.[0]?.content?.parts ?? []) {
+                        if (typeof part?.text === "string" && !part.thought) {
+                                text += part.text;
+                                onDelta(part.text);
+                        } else if (part?.functionCall) {
+                                parts.push(part);
+                        }
+                }
+        }
+        return { parts: text ? [{ text }, ...parts] : parts, usage };
+}
+
+export const geminiAdapter: ProviderAdapter = {
+        id: "gemini",
+        label: "Gemini",
+        keyNames: ["gemini"],
+        timeoutMs: 30_000,
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1_000, maxDelayMs: 10_000 },
+        customEndpoints: false,
+        extractUsage: readGeminiUsage,
+        httpToolDefinition() {
+                return {
+                        functionDeclarations: [
+                                { name: HTTP_TOOL_NAME, description: HTTP_TOOL_DESCRIPTION, parameters: GEMINI_HTTP_TOOL_PARAMETERS },
+                        ],
+                };
+        },
+        ping(apiKey, signal) {
+                return pingModelsEndpoint(`${GEMINI_API}/models`, { "x-goog-api-key": apiKey }, signal);
+        },
+        async chat({ apiKey, model, messages, enableHttpTool, onDelta, onToolCall, onRetry, maxOutputTokens, beforeTurn, onTurnUsage, signal }) {
+                const systemPrompt = messages
+                        .filter((m) => m.role === "system")
+                        .map((m) => m.content)
+                        .join("\n\n");
+                const contents: any[] = messages
+                        .filter((m) => m.role !== "system")
+                        .map((m) => ({ role: m.role === "assistant" ? "model" : "user", parts: [{ text: m.content }] }));
+                const method = onDelta ? "streamGenerateContent?alt=sse" : "generateContent";
+                const url = `${GEMINI_API}/models/${encodeURIComponent(model)}:${method}`;
+                let toolCalls = 0;
+                let usage = emptyUsage();
+                while (true) {
+                        const payload: Record<string, unknown> = {
+                                contents,
+                                generationConfig: maxOutputTokens ? { temperature: 0.3, maxOutputTokens } : { temperature: 0.3 },
+                        };
+                        if (systemPrompt) payload.systemInstruction = { parts: [{ text: systemPrompt }] };
+                        if (enableHttpTool) payload.tools = [geminiAdapter.httpToolDefinition()];
+                        beforeTurn?.();
+                        const res = await fetchWithRetry(
+                                geminiAdapter,
+                                url,
+                                {
+                                        method: "POST",
+                                        headers: { "x-goog-api-key": apiKey, "Content-Type": "application/json" },
+                                        body: JSON.stringify(payload),
+                                        signal,
+                                },
+                                onRetry
+                        );
+                        if (!res.ok) await throwForStatus(geminiAdapter, res);
+                        let parts: any[];
+                        let turnUsage: MagiTokenUsage | null;
+                        if (onDelta) {
+                                const streamed = await readGeminiStream(res, onDelta);
+                                parts = streamed.parts;
+                                turnUsage = streamed.usage;
+                        } else {
+                                const data = await res.json();
+                                parts = data?.candidates?.[0]?.content?.parts ?? [];
+                                turnUsage = readGeminiUsage(data?.usageMetadata);
+                        }
+                        usage = addUsage(usage, turnUsage);
+                        if (turnUsage) onTurnUsage?.(turnUsage);
+                        const calls = enableHttpTool
+                                ? parts.filter((part) => part?.functionCall?.name === HTTP_TOOL_NAME)
+                                : [];
+                        if (calls.length > 0) {
+                                contents.push({ role: "model", parts });
+                                const responses = [];
+                                for (const call of calls) {
+                                        toolCalls += 1;
+                                        const result = await runHttpToolCall(toolArgs(call.functionCall.args), toolCalls, onToolCall, signal);
+                                        responses.push({
+                                                functionResponse: { name: HTTP_TOOL_NAME, response: { result } },
+                                        });
+                                }
+                                contents.push({ role: "user", parts: responses });
+                                continue;
+                        }
+                        const content = parts
+                                .filter((part) => typeof part?.text === "string" && !part.thought)
+                                .map((part) => part.text.trim())
+                                .filter(Boolean)
+                                .join("\n\n");
+                        return { content, httpRequests: toolCalls, usage };
+                }
+        },
+};
@@ -0,0 +1,57 @@
+import { anthropicAdapter } from "@/lib/providers/anthropic";
+import { geminiAdapter } from "@/lib/providers/gemini";
+import { createOpenAICompatibleAdapter } from "@/lib/providers/openaiCompatible";
+import type { ProviderAdapter, ProviderName } from "@/lib/providers/types";
+
+const openaiAdapter = createOpenAICompatibleAdapter({
+        id: "openai",
+        label: "OpenAI",
+        keyNames: ["openai"],
+        baseUrl: "https://api.openai.com/v1",
+        timeoutMs: 20_000,
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8_000 },
+        acceptsUserLabel: true,
+        streamUsageOption: true,
+});
+
+const xaiAdapter = createOpenAICompatibleAdapter({
+        id: "grok",
+        label: "xAI",
+        keyNames: ["grok", "xai"],
+        baseUrl: "https://api.x.ai/v1",
+        timeoutMs: 20_000,
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8_000 },
+        acceptsUserLabel: true,
+        streamUsageOption: true,
+});
+
+// Mistral rejects unknown request fields and always sends usage on the last
+// streamed chunk.
+const mistralAdapter = createOpenAICompatibleAdapter({
+        id: "mistral",
+        label: "Mistral",
+        keyNames: ["mistral"],
+        baseUrl: "https://api.mistral.ai/v1",
+        timeoutMs: 30_000,
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1_000, maxDelayMs: 10_000 },
+        acceptsUserLabel: false,
+        streamUsageOption: false,
+});
+
+export const PROVIDER_ADAPTERS: Record<ProviderName, ProviderAdapter> = {
+        openai: openaiAdapter,
+        anthropic: anthropicAdapter,
+        grok: xaiAdapter,
+        gemini: geminiAdapter,
+        mistral: mistralAdapter,
+};
+
+export function isProviderName(value: unknown): value is ProviderName {
+        return typeof value === "string" && Object.prototype.hasOwnProperty.call(PROVIDER_ADAPTERS, value);
+}
+
+export function getProviderAdapter(provider: unknown): ProviderAdapter | null {
+        return isProviderName(provider) ? PROVIDER_ADAPTERS[provider] : null;
+}
+
+export type { ProviderAdapter, ProviderEndpoint, ProviderName } from "@/lib/providers/types";
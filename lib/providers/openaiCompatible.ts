@@ -0,0 +1,244 @@
+import { addUsage, emptyUsage } from "@/lib/magiUsage";
+import type { RetryPolicy } from "@/lib/magiRetry";
+import type { MagiTokenUsage } from "@/lib/magiTypes";
+import {
+        fetchWithRetry,
+        HTTP_TOOL_DESCRIPTION,
+        HTTP_TOOL_NAME,
+        HTTP_TOOL_PARAMETERS,
+        pingModelsEndpoint,
+        readJsonEvents,
+        runHttpToolCall,
+        throwForStatus,
+} from "@/lib/providers/shared";
+import type {
+        ProviderAdapter,
+        ProviderChatRequest,
+        ProviderChatResult,
+        ProviderEndpoint,
+        ProviderName,
+} from "@/lib/providers/types";
+
+const KEY_PLACEHOLDER = "{{key}}";
+
+type OpenAIChatMessage = {
+        role: "system" | "user" | "assistant" | "tool";
+        content: string | any[];
+        name?: string;
+        tool_call_id?: string;
+        tool_calls?:
+                | null
+                | {
+                          id: string;
+                          type?: "function";
+                          function: { name: string; arguments: string };
+                  }[];
+};
+
+type OpenAIToolCall = NonNullable<OpenAIChatMessage["tool_calls"]>[number];
+
+export type OpenAICompatibleConfig = {
+        id: ProviderName;
+        label: string;
+        keyNames: string[];
+        baseUrl: string;
+        timeoutMs: number;
+        retryPolicy: RetryPolicy;
+        /** Whether the API accepts the `user` field. */
+        acceptsUserLabel: boolean;
+        /** Whether streamed usage must be requested with stream_options.include_usage. */
+        streamUsageOption: boolean;
+};
+
+// Cached tokens are counted inside prompt_tokens.
+function readOpenAIUsage(raw: any): MagiTokenUsage | null {
+        if (!raw || typeof raw !== "object") return null;
+        return {
+                promptTokens: Number(raw.prompt_tokens) || 0,
+                completionTokens: Number(raw.completion_tokens) || 0,
+                cachedTokens: Number(raw.prompt_tokens_details?.cached_tokens) || 0,
+        };
+}
+
+/**
+ * Rebuild the assistant message of a streamed completion. Tool call arguments
+ * arrive as fragments keyed by index and are joined.
+ */
+async function readOpenAIStream(
+        res: Response,
+        onDelta: (text: string) => void
+): Promise<{ message: OpenAIChatMessage; usage: MagiTokenUsage | null }> {
+        let content = "";
+        let usage: MagiTokenUsage | null = null;
+        const toolCalls: OpenAIToolCall[] = [];
+        for await (const chunk of readJsonEvents(res)) {
+                // Usage arrives on the last chunk.
+                if (chunk?.usage) usage = readOpenAIUsage(chunk.usage);
+                const delta = chunk?.choices?.[0]?.delta;
+                if (!delta) continue;
+                if (typeof delta.content === "string" && delta.content) {
+                        content += delta.content;
+                        onDelta(delta.content);
+                }
+                if (Array.isArray(delta.tool_calls)) {
+                        for (const part of delta.tool_calls) {
+                                const index = typeof part?.index === "number" ? part.index : toolCalls.length;
+                                const call = (toolCalls[index] ??= {
+                                        id: "",
+                                        type: "function" as const,
+                                        function: { name: "", arguments: "" },
+                                });
+                                if (part?.id) call.id = part.id;
+                                if (part?.function?.name) call.function.name += part.function.name;
+                                if (part?.function?.arguments) call.function.arguments += part.function.arguments;
+                        }
+                }
+        }
+        const calls = toolCalls.filter(Boolean);
+        const message: OpenAIChatMessage =
+                calls.length > 0 ? { role: "assistant", content, tool_calls: calls } : { role: "assistant", content };
+        return { message, usage };
+}
+
+/**
+ * Bearer auth plus the endpoint's own headers. Azure-style gateways put the
+ * key in a custom header via `{{key}}`, which replaces the Bearer header, and
+ * keyless local servers get no auth header at all.
+ */
+function requestHeaders(apiKey: string, endpoint?: ProviderEndpoint): Record<string, string> {
+        const headers: Record<string, string> = {};
+        let keyPlaced = false;
+        for (const [name, value] of Object.entries(endpoint?.headers ?? {})) {
+                if (typeof value !== "string") continue;
+                if (value.includes(KEY_PLACEHOLDER)) {
+                        if (!apiKey) continue;
+                        keyPlaced = true;
+                        headers[name] = value.split(KEY_PLACEHOLDER).join(apiKey);
+                } else {
+                        headers[name] = value;
+                }
+        }
+        if (apiKey && !keyPlaced) headers.Authorization = `Bearer ${apiKey}`;
+        return headers;
+}
+
+function messageText(message: any): string {
+        const raw = Array.isArray(message.content)
+                ? message.content
+                          .map((part: any) => {
+                                  if (typeof part === "string") return part;
+                                  if (part && typeof part.text === "string") return part.text;
+                                  return "";
+                          })
+                          .filter(Boolean)
+                          .join("\n\n")
+                : String(message.content ?? "");
+        return raw.trim();
+}
+
+/**
+ * An adapter for any `/v1/chat/completions` API: OpenAI, xAI and Mistral, and
+ * through a ProviderEndpoint any gateway or server speaking the same protocol.
+ */
+export function createOpenAICompatibleAdapter(config: OpenAICompatibleConfig): ProviderAdapter {
+        const adapter: ProviderAdapter = {
+                id: config.id,
+                label: config.label,
+                keyNames: config.keyNames,
+                timeoutMs: config.timeoutMs,
+                retryPolicy: config.retryPolicy,
+                customEndpoints: true,
+                extractUsage: readOpenAIUsage,
+                httpToolDefinition() {
+                        return {
+                                type: "function",
+                                function: {
+                                        name: HTTP_TOOL_NAME,
+                                        description: HTTP_TOOL_DESCRIPTION,
+                                        parameters: HTTP_TOOL_PARAMETERS,
+                                },
+                        };
+                },
+                ping(apiKey, signal, endpoint) {
+                        const baseUrl = endpoint?.baseUrl ?? config.baseUrl;
+                        return pingModelsEndpoint(`${baseUrl}/models`, requestHeaders(apiKey, endpoint), signal);
+                },
+                async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+                        const { apiKey, model, userLabel, enableHttpTool, onDelta, onToolCall, onRetry, beforeTurn, onTurnUsage, signal, endpoint } =
+                                request;
+                        if (!model) {
+                                throw new Error("model not specified");
+                        }
+                        const baseUrl = endpoint?.baseUrl ?? config.baseUrl;
+                        const headers = { ...requestHeaders(apiKey, endpoint), "Content-Type": "application/json" };
+                        const conversation: OpenAIChatMessage[] = request.messages.map((m) => ({ ...m }));
+                        let toolCalls = 0;
+                        let usage = emptyUsage();
+                        while (true) {
+                                const payload: Record<string, unknown> = {
+                                        model,
+                                        messages: conversation,
+                                        temperature: 0.3,
+                                };
+                                if (onDelta) {
+                                        payload.stream = true;
+                                        if (config.streamUsageOption) payload.stream_options = { include_usage: true };
+                                }
+                                if (userLabel && config.acceptsUserLabel) payload.user = userLabel;
+                                if (enableHttpTool) payload.tools = [adapter.httpToolDefinition()];
+                                beforeTurn?.();
+                                const res = await fetchWithRetry(
+                                        adapter,
+                                        `${baseUrl}/chat/completions`,
+                                        {
+                                                method: "POST",
+                                                headers,
+                                                body: JSON.stringify(payload),
+                                                signal,
+                                        },
+                                        onRetry
+                                );
+                                if (!res.ok) await throwForStatus(adapter, res);
+                                let message: any;
+                                let turnUsage: MagiTokenUsage | null;
+                                if (onDelta) {
+                                        const streamed = await readOpenAIStream(res, onDelta);
+                                        message = streamed.message;
+                                        turnUsage = streamed.usage;
+                                } else {
+                                        const data = await res.json();
+                                        message = data?.choices?.[0]?.message;
+                                        turnUsage = readOpenAIUsage(data?.usage);
+                                }
+                                usage = addUsage(usage, turnUsage);
+                                if (turnUsage) onTurnUsage?.(turnUsage);
+                                if (!message) {
+                                        return { content: "", httpRequests: toolCalls, usage };
+                                }
+                                if (enableHttpTool && Array.isArray(message.tool_calls) && message.tool_calls.length > 0) {
+                                        conversation.push(message as OpenAIChatMessage);
+                                        for (const call of message.tool_calls) {
+                                                if (!call?.function || call.function.name !== HTTP_TOOL_NAME) {
+                                                        continue;
+                                                }
+                                                toolCalls += 1;
+                                                let args: any = {};
+                                                try {
+                                                        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+                                                } catch {
+                                                        args = {};
+                                                }
+                                                conversation.push({
+                                                        role: "tool",
+                                                        content: await runHttpToolCall(args, toolCalls, onToolCall, signal),
+                                                        tool_call_id: call.id,
+                                                });
+                                        }
+                                        continue;
+                                }
+                                return { content: messageText(message), httpRequests: toolCalls, usage };
+                        }
+                },
+        };
+        return adapter;
+}
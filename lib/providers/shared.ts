@@ -0,0 +1,237 @@
+import { performLiveHttpRequest } from "@/lib/liveHttpProxy";
+import { isRetryableStatus, retryDelay, type RetryAttemptInfo } from "@/lib/magiRetry";
+import type { HttpToolCallInfo, ProviderAdapter, ProviderName } from "@/lib/providers/types";
+
+/**
+ * A provider call that failed with an HTTP status or timed out. Timeouts and
+ * 5xx responses move agentChat on to the agent's next fallback route.
+ */
+export class ProviderRequestError extends Error {
+        constructor(
+                message: string,
+                readonly provider: ProviderName,
+                readonly status: number | null,
+                readonly timedOut = false
+        ) {
+                super(message);
+                this.name = "ProviderRequestError";
+        }
+}
+
+export const HTTP_TOOL_NAME = "magi_http_request";
+export const HTTP_TOOL_DESCRIPTION =
+        "Forward a cURL-style HTTP request via MAGI's relay so you can inspect live endpoints while auditing.";
+export const MAX_HTTP_TOOL_CALLS = 5;
+
+export const HTTP_TOOL_PARAMETERS = {
+        type: "object",
+        properties: {
+                url: { type: "string", description: "Absolute http or https URL to fetch." },
+                method: {
+                        type: "string",
+                        enum: ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"],
+                        description: "HTTP method to use (defaults to GET).",
+                },
+                headers: {
+                        type: "object",
+                        additionalProperties: { type: "string" },
+                        description: "Optional headers to include in the request.",
+                },
+                body: {
+                        type: "string",
+                        description: "Optional UTF-8 request body (use for POST/PUT/PATCH).",
+                },
+        },
+        required: ["url"],
+};
+
+function normalizeHeaderRecord(candidate: unknown): Record<string, string> | undefined {
+        if (!candidate || typeof candidate !== "object") return undefined;
+        const result: Record<string, string> = {};
+        for (const [key, value] of Object.entries(candidate as Record<string, unknown>)) {
+                if (typeof value === "string") {
+                        result[key] = value;
+                }
+        }
+        return Object.keys(result).length ? result : undefined;
+}
+
+export function formatToolResultPayload(payload: unknown): string {
+        return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Execute one relay request for a model. Over-limit calls are answered with an
+ * error payload instead of running, so the model can still wrap up.
+ */
+export async function runHttpToolCall(
+        rawArgs: any,
+        callNumber: number,
+        onToolCall?: (call: HttpToolCallInfo) => void,
+        signal?: AbortSignal
+): Promise<string> {
+        if (callNumber > MAX_HTTP_TOOL_CALLS) {
+                return formatToolResultPayload({ ok: false, error: "HTTP relay tool call limit reached" });
+        }
+        const url = typeof rawArgs?.url === "string" ? rawArgs.url : "";
+        const method = typeof rawArgs?.method === "string" ? rawArgs.method : undefined;
+        const headers = normalizeHeaderRecord(rawArgs?.headers);
+        const body = typeof rawArgs?.body === "string" ? rawArgs.body : undefined;
+        if (!url) {
+                return formatToolResultPayload({ ok: false, error: "Request requires a url" });
+        }
+        try {
+                const response = await performLiveHttpRequest({ url, method, headers, body, signal });
+                onToolCall?.({ method: (method || "GET").toUpperCase(), url, status: response.status, ok: true });
+                return formatToolResultPayload({ ok: true, response });
+        } catch (err: any) {
+                if (signal?.aborted) throw err;
+                onToolCall?.({ method: (method || "GET").toUpperCase(), url, status: null, ok: false });
+                return formatToolResultPayload({ ok: false, error: err?.message || "Request failed" });
+        }
+}
+
+type ServerSentEvent = { event: string | null; data: string };
+
+function parseServerSentEvent(raw: string): ServerSentEvent | null {
+        let event: string | null = null;
+        const data: string[] = [];
+        for (const line of raw.split(/\r?\n/)) {
+                if (line.startsWith("event:")) event = line.slice(6).trim();
+                else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+        }
+        return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+export async function* readServerSentEvents(res: Response): AsyncGenerator<ServerSentEvent> {
+        const reader = res.body?.getReader();
+        if (!reader) return;
+        const decoder = new TextDecoder();
+        let buffer = "";
+        while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                let match: RegExpMatchArray | null;
+                while ((match = buffer.match(/\r?\n\r?\n/)) && typeof match.index === "number") {
+                        const parsed = parseServerSentEvent(buffer.slice(0, match.index));
+                        buffer = buffer.slice(match.index + match[0].length);
+                        if (parsed) yield parsed;
+                }
+        }
+        const tail = parseServerSentEvent(buffer + decoder.decode());
+        if (tail) yield tail;
+}
+
+/** Parse each SSE data payload as JSON, skipping keep-alives and malformed chunks. */
+export async function* readJsonEvents(res: Response): AsyncGenerator<any> {
+        for await (const evt of readServerSentEvents(res)) {
+                if (evt.data === "[DONE]") return;
+                try {
+                        yield JSON.parse(evt.data);
+                } catch {
+                        continue;
+                }
+        }
+}
+
+/**
+ * POST to a provider, retrying throttled and transient failures under the
+ * adapter's retry policy. The last response is returned as-is once the policy
+ * gives up so callers keep their own error reporting.
+ */
+export async function fetchWithRetry(
+        adapter: Pick<ProviderAdapter, "id" | "retryPolicy">,
+        url: string,
+        init: RequestInit,
+        onRetry?: (attempt: RetryAttemptInfo) => void
+): Promise<Response> {
+        const policy = adapter.retryPolicy;
+        const signal = init.signal ?? undefined;
+        for (let attempt = 1; ; attempt += 1) {
+                let res: Response | null = null;
+                let failure = "";
+                try {
+                        res = await fetch(url, init);
+                } catch (err: any) {
+                        if (signal?.aborted) throw err;
+                        failure = err?.message || "network error";
+                }
+                if (res && (res.ok || !isRetryableStatus(res.status))) return res;
+                const wait = retryDelay(policy, attempt, res?.headers ?? null);
+                if (!wait) {
+                        if (res) return res;
+                        throw new ProviderRequestError(`${adapter.id} request failed: ${failure}`, adapter.id, null);
+                }
+                onRetry?.({
+                        provider: adapter.id,
+                        attempt: attempt + 1,
+                        maxAttempts: policy.maxAttempts,
+                        status: res?.status ?? null,
+                        delayMs: wait.delayMs,
+                        source: wait.source,
+                        reason: res ? `HTTP ${res.status}` : failure,
+                });
+                await res?.body?.cancel().catch(() => {});
+                await abortableDelay(wait.delayMs, signal);
+        }
+}
+
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+                if (signal?.aborted) {
+                        reject(signal.reason);
+                        return;
+                }
+                const onAbort = () => {
+                        clearTimeout(id);
+                        reject(signal?.reason);
+                };
+                const id = setTimeout(() => {
+                        signal?.removeEventListener("abort", onAbort);
+                        resolve();
+                }, ms);
+                signal?.addEventListener("abort", onAbort, { once: true });
+        });
+}
+
+/** Throw a ProviderRequestError carrying the status and any response body. */
+export async function throwForStatus(adapter: Pick<ProviderAdapter, "id" | "label">, res: Response): Promise<never> {
+        let detail = "";
+        try {
+                detail = (await res.text()).trim();
+        } catch {
+                detail = "";
+        }
+        throw new ProviderRequestError(
+                `${adapter.label.toLowerCase()} error ${res.status}${detail ? `: ${detail.slice(0, 500)}` : ""}`,
+                adapter.id,
+                res.status
+        );
+}
+
+/** GET a models listing to check a key; any failure counts as unverified. */
+export async function pingModelsEndpoint(url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<boolean> {
+        try {
+                const res = await fetch(url, { method: "GET", headers, cache: "no-store", signal });
+                return res.ok;
+        } catch {
+                return false;
+        }
+}
+
+/**
+ * Validate an agent's custom API root: http(s) only, without a trailing slash
+ * so provider paths can be appended. Returns null for anything else.
+ */
+export function normalizeBaseUrl(raw: unknown): string | null {
+        if (typeof raw !== "string" || !raw.trim()) return null;
+        try {
+                const url = new URL(raw.trim());
+                if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+                if (url.username || url.password) return null;
+                return url.toString().replace(/\/+$/, "");
+        } catch {
+                return null;
+        }
+}
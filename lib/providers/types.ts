@@ -0,0 +1,86 @@
+import type { RetryAttemptInfo, RetryPolicy } from "@/lib/magiRetry";
+import type { MagiProviderId, MagiTokenUsage } from "@/lib/magiTypes";
+
+export type ProviderName = MagiProviderId;
+
+export type ChatTurn = { role: "system" | "user" | "assistant"; content: string };
+
+export type HttpToolCallInfo = {
+        method: string;
+        url: string;
+        status: number | null;
+        ok: boolean;
+};
+
+/**
+ * A self-hosted or proxied API standing in for the provider's own, such as
+ * Azure OpenAI, OpenRouter, vLLM or llama.cpp.
+ */
+export type ProviderEndpoint = {
+        /** API root the provider paths are appended to, e.g. `http://gpu-box:8000/v1`. */
+        baseUrl: string;
+        /**
+         * Sent with every request. A `{{key}}` placeholder in a value is
+         * replaced by the API key and the default auth header is dropped.
+         */
+        headers: Record<string, string>;
+};
+
+export type ProviderChatRequest = {
+        /** Empty for keyless endpoints such as a local llama.cpp server. */
+        apiKey: string;
+        model: string;
+        messages: ChatTurn[];
+        /** Stable end-user label forwarded where the provider supports one. */
+        userLabel?: string;
+        enableHttpTool: boolean;
+        // When set, the provider is called in streaming mode and each text
+        // fragment is passed here as it arrives.
+        onDelta?: (text: string) => void;
+        onToolCall?: (call: HttpToolCallInfo) => void;
+        onRetry?: (attempt: RetryAttemptInfo) => void;
+        /**
+         * Cap on reply tokens where the provider's API takes one. Providers
+         * that require a cap fall back to their own default when unset.
+         */
+        maxOutputTokens?: number;
+        /** Called before every provider request, tool-loop turns included; throwing ends the chat. */
+        beforeTurn?: () => void;
+        /** Token usage of each provider response as it arrives. */
+        onTurnUsage?: (usage: MagiTokenUsage) => void;
+        signal?: AbortSignal;
+        /** Overrides the provider's own API; only honoured when `customEndpoints` is set. */
+        endpoint?: ProviderEndpoint;
+};
+
+export type ProviderChatResult = {
+        content: string;
+        httpRequests: number;
+        /** Summed over every tool-loop turn. */
+        usage: MagiTokenUsage;
+};
+
+/**
+ * Everything MAGI needs from one model vendor. agentChat, failover and the
+ * key check in /api/ping only go through this interface, so a new provider is
+ * an adapter file plus an entry in the registry.
+ */
+export interface ProviderAdapter {
+        id: ProviderName;
+        label: string;
+        /** ProviderKeyMap fields holding this provider's key, checked in order. */
+        keyNames: string[];
+        /** Time limit for one chat call, tool turns included; waits between retries do not count. */
+        timeoutMs: number;
+        retryPolicy: RetryPolicy;
+        /** Whether agents may point this provider at a ProviderEndpoint. */
+        customEndpoints: boolean;
+        /** Run a chat, including the HTTP relay tool loop when enabled. */
+        chat(request: ProviderChatRequest): Promise<ProviderChatResult>;
+        /** The HTTP relay tool declared in the provider's own tool format. */
+        httpToolDefinition(): unknown;
+        /** Check that an API key is accepted, by the given endpoint when set. */
+        ping(apiKey: string, signal?: AbortSignal, endpoint?: ProviderEndpoint): Promise<boolean>;
+        /** Read token counts from a response or stream chunk's usage block. */
+        extractUsage(raw: unknown): MagiTokenUsage | null;
+}
@@ -0,0 +1,2 @@
+alter table if exists public.magi_sessions
+    add column if not exists settings jsonb not null default '{}'::jsonb;
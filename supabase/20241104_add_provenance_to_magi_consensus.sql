@@ -0,0 +1,2 @@
+alter table if exists public.magi_consensus
+    add column if not exists provenance jsonb;
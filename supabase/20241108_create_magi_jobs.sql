@@ -0,0 +1,16 @@
+create table if not exists public.magi_jobs (
+    session_id uuid primary key references public.magi_sessions (id) on delete cascade,
+    status text not null default 'running',
+    current_step text,
+    next_step text,
+    last_completed_step text,
+    round integer not null default 1,
+    diagnostics jsonb,
+    error text,
+    heartbeat_at timestamptz not null default now(),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists magi_jobs_status_idx
+    on public.magi_jobs using btree (status);
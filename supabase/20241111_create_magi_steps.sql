@@ -0,0 +1,12 @@
+create table if not exists public.magi_steps (
+    id bigserial primary key,
+    session_id uuid not null references public.magi_sessions (id) on delete cascade,
+    step text not null,
+    round integer not null default 1,
+    status text not null default 'running',
+    result jsonb,
+    error text,
+    started_at timestamptz not null default now(),
+    completed_at timestamptz,
+    constraint magi_steps_session_step_round_key unique (session_id, step, round)
+);
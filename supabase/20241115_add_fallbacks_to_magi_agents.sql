@@ -0,0 +1,4 @@
+-- Ordered [{"provider": "...", "model": "..."}] routes tried when the agent's
+-- own provider times out or returns a 5xx.
+alter table public.magi_agents
+    add column if not exists fallbacks jsonb not null default '[]'::jsonb;
@@ -0,0 +1,14 @@
+-- Token usage reported by the provider for each agent call, summed across
+-- tool-loop turns, and its cost in USD from the price table in lib/magiUsage.ts.
+alter table if exists public.magi_messages
+    add column if not exists prompt_tokens integer,
+    add column if not exists completion_tokens integer,
+    add column if not exists cached_tokens integer,
+    add column if not exists cost_usd numeric(12, 6);
+
+alter table if exists public.magi_votes
+    add column if not exists tokens integer,
+    add column if not exists prompt_tokens integer,
+    add column if not exists completion_tokens integer,
+    add column if not exists cached_tokens integer,
+    add column if not exists cost_usd numeric(12, 6);
@@ -0,0 +1,9 @@
+-- Per-user spend caps enforced before every provider call. Null leaves a cap unset.
+create table if not exists public.magi_user_budgets (
+    user_id uuid primary key,
+    max_tokens bigint,
+    max_cost_usd numeric(12, 4),
+    daily_max_tokens bigint,
+    daily_max_cost_usd numeric(12, 4),
+    updated_at timestamptz not null default now()
+);
@@ -0,0 +1,7 @@
+-- Optional OpenAI-compatible API root (Azure OpenAI, OpenRouter, vLLM,
+-- llama.cpp) used instead of the provider's own, plus headers sent with each
+-- request. A "{{key}}" placeholder in a header value is replaced by the key
+-- the operator registered for the endpoint.
+alter table public.magi_agents
+    add column if not exists base_url text,
+    add column if not exists extra_headers jsonb not null default '{}'::jsonb;
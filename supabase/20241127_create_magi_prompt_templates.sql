@@ -0,0 +1,19 @@
+-- Versioned system prompts. A row with a null agent_id is the default for
+-- every agent; the highest version for an (agent, stage) pair is live and
+-- older versions are kept for comparison.
+create table if not exists public.magi_prompt_templates (
+    id bigserial primary key,
+    agent_id uuid references public.magi_agents (id) on delete cascade,
+    stage text not null,
+    version integer not null,
+    body text not null,
+    created_by uuid,
+    created_at timestamptz not null default now()
+);
+
+create unique index if not exists magi_prompt_templates_agent_stage_version_key
+    on public.magi_prompt_templates (coalesce(agent_id, '00000000-0000-0000-0000-000000000000'::uuid), stage, version);
+
+-- Votes record the template that produced them, like messages do in meta.
+alter table public.magi_votes
+    add column if not exists meta jsonb not null default '{}'::jsonb;
@@ -0,0 +1,4 @@
+-- Per-criterion rubric scores, [{"id", "label", "weight", "score"}]; the
+-- score column holds their weighted total. Null for heuristic fallback votes.
+alter table public.magi_votes
+    add column if not exists criteria jsonb;
@@ -0,0 +1,21 @@
+-- Structured findings extracted from proposal and revision messages. The
+-- message content keeps a prose rendering of the same findings.
+create table if not exists public.magi_findings (
+    id bigserial primary key,
+    session_id uuid not null references public.magi_sessions (id) on delete cascade,
+    message_id bigint not null references public.magi_messages (id) on delete cascade,
+    agent_id uuid references public.magi_agents (id) on delete set null,
+    round integer not null default 1,
+    title text not null,
+    severity text not null check (severity in ('critical', 'high', 'medium', 'low', 'info')),
+    file_path text,
+    line_start integer,
+    line_end integer,
+    cwe text,
+    evidence text,
+    remediation text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists magi_findings_session_id_idx on public.magi_findings (session_id);
+create index if not exists magi_findings_message_id_idx on public.magi_findings (message_id);